@@ -0,0 +1,20 @@
+// Public API for plugins. Plugin modules should import from here rather than from individual modules;
+// everything exported here is kept stable.
+
+export {
+  HTTP_METHODS,
+  deepTraverse,
+  forEachOperation,
+  forEachParameter,
+  forEachSchema,
+  forEachSchemaObject,
+  forEachSchemaProperty,
+  resolveRef,
+  updateAllRefs,
+  type TraverseVisitor,
+} from "./traversal.js";
+export { RuleMatches, type Pass, type PassContext, type PipelineStage } from "./pipeline.js";
+export { compileSelector, matchesSelector, selectKeys, type CompiledSelector } from "./selectors.js";
+export { queryJsonPath, type JsonPathNode } from "./jsonPath.js";
+export { definePlugin, type OpenAPIConverterPlugin, type PluginPass, type SpecValidator } from "./plugins.js";
+export type { OpenAPISpec, ProcessingConfig, SpecConfig, SpecDefinition } from "./types.js";
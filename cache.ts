@@ -0,0 +1,72 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { sha256 } from "./lockfile.js";
+
+// ===== UPSTREAM CACHE =====
+
+/**
+ * Content-addressed cache of raw upstream documents and GitHub lookups (latest tags, tag commits).
+ *
+ * Layout:
+ *   documents/<sha256>  raw document content, addressed by its own sha256
+ *   urls/<sha256(url)>  sha256 of the document last fetched from that URL
+ *   lookups/<sha256(key)>.json  `{ key, value }` for a tag or commit lookup
+ *
+ * Documents requested with an expected sha256 are served from the cache whenever present, since their
+ * content cannot change. Everything else is only served from the cache in offline mode.
+ */
+export class UpstreamCache {
+  constructor(
+    readonly dir: string,
+    readonly offline = false,
+  ) {}
+
+  private async read(path: string): Promise<string | undefined> {
+    try {
+      return await readFile(join(this.dir, path), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private async write(path: string, content: string): Promise<void> {
+    const fullPath = join(this.dir, path);
+    await mkdir(join(fullPath, ".."), { recursive: true });
+    await writeFile(fullPath, content, "utf8");
+  }
+
+  private missing(what: string): Error {
+    return new Error(`${what} is not in the upstream cache at ${this.dir}. Run once without --offline to populate it.`);
+  }
+
+  /**
+   * Return a cached document by its expected sha256, or by URL when offline
+   */
+  async getDocument(url: string, expectedSha256?: string): Promise<string | undefined> {
+    const hash = expectedSha256 ?? (this.offline ? (await this.read(join("urls", sha256(url))))?.trim() : undefined);
+    const content = hash ? await this.read(join("documents", hash)) : undefined;
+    if (content === undefined && this.offline) throw this.missing(url);
+    return content;
+  }
+
+  async putDocument(url: string, content: string): Promise<void> {
+    const hash = sha256(content);
+    await this.write(join("documents", hash), content);
+    await this.write(join("urls", sha256(url)), `${hash}\n`);
+  }
+
+  /**
+   * Return a cached lookup when offline; online lookups always go to the network
+   */
+  async getLookup(key: string): Promise<string | undefined> {
+    if (!this.offline) return undefined;
+    const entry = await this.read(join("lookups", `${sha256(key)}.json`));
+    if (entry === undefined) throw this.missing(key);
+    return JSON.parse(entry).value;
+  }
+
+  async putLookup(key: string, value: string): Promise<void> {
+    await this.write(join("lookups", `${sha256(key)}.json`), `${JSON.stringify({ key, value }, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,259 @@
+import type { CanonicalOrdering, OpenAPISpec } from "./types.js";
+
+// ===== FIELD ORDER =====
+
+// Fixed fields of each OpenAPI object in the order the specification lists them. Keys not listed here
+// (vendor extensions, OpenAPI 3.1 additions) follow the listed ones in their existing order.
+const FIELD_ORDER = {
+  document: ["openapi", "info", "jsonSchemaDialect", "servers", "paths", "webhooks", "components", "security", "tags", "externalDocs"],
+  info: ["title", "summary", "description", "termsOfService", "contact", "license", "version"],
+  server: ["url", "description", "variables"],
+  components: ["schemas", "responses", "parameters", "examples", "requestBodies", "headers", "securitySchemes", "links", "callbacks"],
+  pathItem: [
+    "$ref",
+    "summary",
+    "description",
+    "get",
+    "put",
+    "post",
+    "delete",
+    "options",
+    "head",
+    "patch",
+    "trace",
+    "servers",
+    "parameters",
+  ],
+  operation: [
+    "tags",
+    "summary",
+    "description",
+    "externalDocs",
+    "operationId",
+    "parameters",
+    "requestBody",
+    "responses",
+    "callbacks",
+    "deprecated",
+    "security",
+    "servers",
+  ],
+  parameter: [
+    "$ref",
+    "name",
+    "in",
+    "description",
+    "required",
+    "deprecated",
+    "allowEmptyValue",
+    "style",
+    "explode",
+    "allowReserved",
+    "schema",
+    "example",
+    "examples",
+    "content",
+  ],
+  requestBody: ["$ref", "description", "content", "required"],
+  mediaType: ["schema", "example", "examples", "encoding"],
+  response: ["$ref", "description", "headers", "content", "links"],
+  tag: ["name", "description", "externalDocs"],
+  securityScheme: ["type", "description", "name", "in", "scheme", "bearerFormat", "flows", "openIdConnectUrl"],
+  schema: [
+    "$ref",
+    "title",
+    "multipleOf",
+    "maximum",
+    "exclusiveMaximum",
+    "minimum",
+    "exclusiveMinimum",
+    "maxLength",
+    "minLength",
+    "pattern",
+    "maxItems",
+    "minItems",
+    "uniqueItems",
+    "maxProperties",
+    "minProperties",
+    "required",
+    "enum",
+    "const",
+    "type",
+    "allOf",
+    "oneOf",
+    "anyOf",
+    "not",
+    "items",
+    "properties",
+    "additionalProperties",
+    "description",
+    "format",
+    "default",
+    "nullable",
+    "discriminator",
+    "readOnly",
+    "writeOnly",
+    "xml",
+    "externalDocs",
+    "example",
+    "examples",
+    "deprecated",
+  ],
+};
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+export const DEFAULT_CANONICAL_ORDERING: Required<CanonicalOrdering> = {
+  keyOrder: true,
+  sortPaths: true,
+  sortSchemas: true,
+  sortRequired: true,
+  trailingNewline: true,
+};
+
+/**
+ * Resolve the `canonicalize` config value: unset or true enables every rule, false disables them all
+ */
+export function resolveCanonicalOrdering(option: boolean | CanonicalOrdering | undefined): Required<CanonicalOrdering> {
+  if (option === false) {
+    return { keyOrder: false, sortPaths: false, sortSchemas: false, sortRequired: false, trailingNewline: false };
+  }
+  return { ...DEFAULT_CANONICAL_ORDERING, ...(typeof option === "object" ? option : {}) };
+}
+
+// ===== REORDERING =====
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === "object" && !Array.isArray(value);
+
+const compareNames = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Rewrite an object's keys in the given order, in place. Returns whether the order changed.
+ */
+function reorder(obj: Record<string, any>, keys: string[]): boolean {
+  const current = Object.keys(obj);
+  if (current.every((key, i) => key === keys[i])) return false;
+
+  const entries = keys.map((key) => [key, obj[key]] as const);
+  current.forEach((key) => delete obj[key]);
+  entries.forEach(([key, value]) => (obj[key] = value));
+  return true;
+}
+
+function orderFields(obj: Record<string, any>, order: string[]): boolean {
+  const rank = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length);
+  // Array.prototype.sort is stable, so unlisted keys keep their relative order
+  return reorder(
+    obj,
+    Object.keys(obj).sort((a, b) => rank(a) - rank(b)),
+  );
+}
+
+function sortKeys(obj: Record<string, any>): boolean {
+  return reorder(obj, Object.keys(obj).sort(compareNames));
+}
+
+/**
+ * Order a schema's `required` array to match the order of its properties; names without a property keep their
+ * relative order at the end
+ */
+function orderRequired(schema: Record<string, any>): boolean {
+  if (!Array.isArray(schema.required) || !isObject(schema.properties)) return false;
+
+  const properties = Object.keys(schema.properties);
+  const rank = (name: string) => (properties.includes(name) ? properties.indexOf(name) : properties.length);
+  const sorted = [...schema.required].sort((a, b) => rank(a) - rank(b));
+  if (sorted.every((name, i) => name === schema.required[i])) return false;
+
+  schema.required = sorted;
+  return true;
+}
+
+// ===== DOCUMENT WALK =====
+
+/**
+ * Put a processed OpenAPI document into canonical order, in place. Returns the number of objects and arrays
+ * whose order changed.
+ */
+export function canonicalizeSpec(spec: OpenAPISpec, options: CanonicalOrdering = DEFAULT_CANONICAL_ORDERING): number {
+  let changed = 0;
+  const count = (didChange: boolean) => didChange && changed++;
+  const fields = (obj: unknown, order: string[]) => isObject(obj) && options.keyOrder && count(orderFields(obj, order));
+  const eachValue = (map: unknown, visit: (value: any) => void) => isObject(map) && Object.values(map).forEach(visit);
+
+  const schema = (value: unknown): void => {
+    if (!isObject(value)) return;
+    fields(value, FIELD_ORDER.schema);
+    if (options.sortRequired) count(orderRequired(value));
+
+    eachValue(value.properties, schema);
+    schema(value.items);
+    schema(value.not);
+    schema(value.additionalProperties);
+    for (const key of ["allOf", "oneOf", "anyOf"]) {
+      if (Array.isArray(value[key])) value[key].forEach(schema);
+    }
+  };
+
+  const mediaTypes = (content: unknown) =>
+    eachValue(content, (mediaType) => {
+      fields(mediaType, FIELD_ORDER.mediaType);
+      schema(mediaType?.schema);
+    });
+
+  const parameter = (value: unknown) => {
+    fields(value, FIELD_ORDER.parameter);
+    if (!isObject(value)) return;
+    schema(value.schema);
+    mediaTypes(value.content);
+  };
+
+  const requestBody = (value: unknown) => {
+    fields(value, FIELD_ORDER.requestBody);
+    if (isObject(value)) mediaTypes(value.content);
+  };
+
+  const response = (value: unknown) => {
+    fields(value, FIELD_ORDER.response);
+    if (!isObject(value)) return;
+    eachValue(value.headers, parameter);
+    mediaTypes(value.content);
+  };
+
+  const operation = (value: unknown) => {
+    fields(value, FIELD_ORDER.operation);
+    if (!isObject(value)) return;
+    if (Array.isArray(value.parameters)) value.parameters.forEach(parameter);
+    requestBody(value.requestBody);
+    eachValue(value.responses, response);
+  };
+
+  fields(spec, FIELD_ORDER.document);
+  fields(spec.info, FIELD_ORDER.info);
+  if (Array.isArray(spec.servers)) spec.servers.forEach((server: unknown) => fields(server, FIELD_ORDER.server));
+  if (Array.isArray(spec.tags)) spec.tags.forEach((tag: unknown) => fields(tag, FIELD_ORDER.tag));
+
+  if (isObject(spec.paths)) {
+    if (options.sortPaths) count(sortKeys(spec.paths));
+    eachValue(spec.paths, (pathItem) => {
+      fields(pathItem, FIELD_ORDER.pathItem);
+      if (!isObject(pathItem)) return;
+      HTTP_METHODS.forEach((method) => operation(pathItem[method]));
+      if (Array.isArray(pathItem.parameters)) pathItem.parameters.forEach(parameter);
+    });
+  }
+
+  const components = spec.components;
+  if (isObject(components)) {
+    fields(components, FIELD_ORDER.components);
+    if (options.sortSchemas && isObject(components.schemas)) count(sortKeys(components.schemas));
+    eachValue(components.schemas, schema);
+    eachValue(components.responses, response);
+    eachValue(components.parameters, parameter);
+    eachValue(components.requestBodies, requestBody);
+    eachValue(components.headers, parameter);
+    eachValue(components.securitySchemes, (scheme) => fields(scheme, FIELD_ORDER.securityScheme));
+  }
+
+  return changed;
+}
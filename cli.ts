@@ -0,0 +1,225 @@
+import { parseArgs } from "node:util";
+import { SPECS } from "./config.js";
+import { DEFAULT_GITHUB_ENDPOINTS } from "./upstream.js";
+import { OUTPUT_FORMATS } from "./output.js";
+import type { ModelFormat, OutputFormat, SpecDefinition } from "./types.js";
+
+// ===== TYPES =====
+
+export const COMMANDS = {
+  generate: "Fetch, convert and transform the selected specs and write them to the output directory (default)",
+  update: "Like generate, but re-resolve the latest upstream tags and refresh specs/upstream.lock.json",
+  diff: "Compare generated specs with the committed ones, or two spec files, and classify breaking changes",
+  validate: "Validate OpenAPI files, or the selected specs in the output directory",
+  consistency: "Compare the schemas the processed specs share, field by field, and report differences not allowed",
+  "export-overlay": "Write the net effect of each selected spec's config rules as an OpenAPI Overlay",
+  "export-schemas": "Write each component schema of the selected specs as a standalone JSON Schema 2020-12 file",
+  "list-specs": "List the registered specs with their upstream source and output file",
+  help: "Show this help",
+} as const;
+
+export type Command = keyof typeof COMMANDS;
+
+export interface CliOptions {
+  command: Command;
+  files: string[]; // Positional arguments after the command
+  specs: string[]; // Selected spec names; empty selects every spec
+  outputDir: string;
+  sources: Map<string, string>; // Spec name → URL or path overriding the locked upstream source
+  tags: Map<string, string>; // Spec name → upstream tag to pin
+  configs: string[];
+  plugins: string[]; // Plugin modules whose specs join the registry
+  converter?: "local" | "remote";
+  indent?: number;
+  formats?: OutputFormat[];
+  models?: ModelFormat; // Also write TypeScript models in this format
+  dryRun: boolean;
+  strict: boolean;
+  offline: boolean;
+  cacheDir?: string;
+  githubApiUrl?: string;
+  githubRawUrl?: string;
+  output?: string; // diff, consistency: also write the Markdown report here; export-overlay: the overlay file; export-schemas: the directory
+  listPasses: boolean;
+}
+
+// ===== PARSING =====
+
+const OPTIONS = {
+  spec: { type: "string", multiple: true },
+  "output-dir": { type: "string" },
+  source: { type: "string", multiple: true },
+  tag: { type: "string", multiple: true },
+  config: { type: "string", multiple: true },
+  plugin: { type: "string", multiple: true },
+  converter: { type: "string" },
+  indent: { type: "string" },
+  format: { type: "string", multiple: true },
+  models: { type: "string" },
+  "dry-run": { type: "boolean" },
+  "list-passes": { type: "boolean" },
+  strict: { type: "boolean" },
+  offline: { type: "boolean" },
+  "cache-dir": { type: "string" },
+  "github-api-url": { type: "string" },
+  "github-raw-url": { type: "string" },
+  output: { type: "string" },
+  help: { type: "boolean", short: "h" },
+  // Shorthand flags from the spec registry, e.g. --algod-only
+  ...Object.fromEntries(SPECS.map((spec) => [spec.cliFlag.replace(/^--/, ""), { type: "boolean" }])),
+} as const;
+
+/**
+ * Parse repeated `<spec>=<value>` options into a map
+ */
+function parseAssignments(values: string[] | undefined, option: string): Map<string, string> {
+  const assignments = new Map<string, string>();
+  for (const value of values ?? []) {
+    const separator = value.indexOf("=");
+    if (separator <= 0 || separator === value.length - 1) {
+      throw new Error(`Invalid ${option} "${value}", expected <spec>=<value>`);
+    }
+    assignments.set(value.slice(0, separator), value.slice(separator + 1));
+  }
+  return assignments;
+}
+
+/**
+ * Whether an error from parseCli is about the shape of the command line (an unknown option, a missing value), which
+ * the usage explains
+ */
+export function isUsageError(error: unknown): boolean {
+  return String((error as NodeJS.ErrnoException)?.code).startsWith("ERR_PARSE_ARGS_");
+}
+
+export function parseCli(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  const flags = values as Record<string, any>;
+
+  const [first, ...rest] = positionals;
+  const command: Command = flags.help ? "help" : first === undefined ? "generate" : (first as Command);
+  if (!Object.hasOwn(COMMANDS, command)) {
+    throw new Error(`Unknown command "${first}". Run with --help to list commands.`);
+  }
+
+  const specs = [
+    ...(flags.spec ?? []).flatMap((value: string) => value.split(",").map((name) => name.trim())),
+    ...SPECS.filter((spec) => flags[spec.cliFlag.replace(/^--/, "")]).map((spec) => spec.name),
+  ];
+
+  if (flags.converter !== undefined && !["local", "remote"].includes(flags.converter)) {
+    throw new Error(`Invalid --converter "${flags.converter}", expected local or remote`);
+  }
+  const indent = flags.indent === undefined ? undefined : Number(flags.indent);
+  if (indent !== undefined && !(Number.isInteger(indent) && indent >= 1 && indent <= 10)) {
+    throw new Error(`Invalid --indent "${flags.indent}", expected an integer between 1 and 10`);
+  }
+
+  const formats = flags.format?.flatMap((value: string) => value.split(",").map((format) => format.trim()));
+  for (const format of formats ?? []) {
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new Error(`Invalid --format "${format}", expected ${OUTPUT_FORMATS.join(", ")}`);
+    }
+  }
+
+  if (flags.models !== undefined && !["d.ts", "ts"].includes(flags.models)) {
+    throw new Error(`Invalid --models "${flags.models}", expected d.ts or ts`);
+  }
+
+  return {
+    command,
+    files: first === undefined ? [] : rest,
+    specs: [...new Set(specs)],
+    outputDir: flags["output-dir"] ?? "specs",
+    sources: parseAssignments(flags.source, "--source"),
+    tags: parseAssignments(flags.tag, "--tag"),
+    configs: flags.config ?? [],
+    plugins: flags.plugin ?? [],
+    converter: flags.converter,
+    indent,
+    formats,
+    models: flags.models,
+    dryRun: !!flags["dry-run"],
+    strict: !!flags.strict,
+    offline: !!flags.offline,
+    cacheDir: flags["cache-dir"],
+    githubApiUrl: flags["github-api-url"],
+    githubRawUrl: flags["github-raw-url"],
+    output: flags.output,
+    listPasses: !!flags["list-passes"],
+  };
+}
+
+/**
+ * Check the spec names given to --spec, --source and --tag against the registry, which plugins may extend
+ */
+export function checkSpecNames(options: CliOptions, specs: SpecDefinition[]): void {
+  const check = (name: string, option: string) => {
+    if (!specs.some((spec) => spec.name === name)) {
+      throw new Error(`Unknown spec "${name}" in ${option} (expected one of ${specs.map((s) => s.name).join(", ")})`);
+    }
+  };
+  options.specs.forEach((name) => check(name, "--spec"));
+  [...options.sources.keys()].forEach((name) => check(name, "--source"));
+  [...options.tags.keys()].forEach((name) => check(name, "--tag"));
+}
+
+// ===== HELP =====
+
+export function renderHelp(specs: SpecDefinition[] = SPECS): string {
+  const specNames = specs.map((spec) => spec.name).join(",");
+  const column = (text: string, width: number) => text.padEnd(width);
+
+  const lines = ["Usage: tsx main.ts [command] [options]", "", "Commands:"];
+  for (const [name, description] of Object.entries(COMMANDS)) {
+    lines.push(`  ${column(name, 16)}${description}`);
+  }
+
+  lines.push(
+    "",
+    "Options:",
+    `  --spec <names>                Comma-separated specs to process (${specNames}); repeatable, default all`,
+    "  --output-dir <dir>            Where specs and reports are written (default specs)",
+    "  --source <spec>=<url|path>    Use this OAS2 document instead of the locked upstream source",
+    "  --tag <spec>=<tag>            Pin a spec to an upstream tag and update its lock entry",
+    "  --config <file>               Load a YAML/JSON spec config file; repeatable",
+    "  --plugin <module>             Load a plugin module and register the specs it defines; repeatable",
+    "  --converter <local|remote>    Swagger 2.0 converter (default remote)",
+    "  --indent <n>                  JSON and YAML indentation of the written specs",
+    `  --format <formats>            Comma-separated output formats (${OUTPUT_FORMATS.join(", ")}); default json`,
+    "  --models <d.ts|ts>            Also write TypeScript models of each spec, e.g. algod.models.d.ts",
+    "  --dry-run                     Print a summary of what would be written without writing files",
+    "  --list-passes                 Print the effective transformation pipeline of each selected spec and exit",
+    "  --strict                      Fail if any config rule matched nothing",
+    "  --offline                     Only use the upstream cache",
+    "  --cache-dir <dir>             Upstream cache directory (default .cache/upstream)",
+    `  --github-api-url <url>        GitHub API base URL (default ${DEFAULT_GITHUB_ENDPOINTS.apiBaseUrl})`,
+    `  --github-raw-url <url>        Raw file base URL (default ${DEFAULT_GITHUB_ENDPOINTS.rawBaseUrl})`,
+    "  --output <file>               diff, consistency: also write the Markdown report here; export-overlay: the overlay file;",
+    "                                export-schemas: the directory",
+    "  -h, --help                    Show this help",
+    "",
+    "Specs:",
+  );
+
+  for (const spec of specs) {
+    const { owner, repo, path, tagStrategy } = spec.github;
+    // Only built-in specs get a shorthand flag; plugin specs are selected with --spec
+    const flag = SPECS.some((builtin) => builtin.name === spec.name) ? spec.cliFlag : "";
+    lines.push(`  ${column(spec.name, 10)}${column(flag, 16)}${owner}/${repo}:${path} (${tagStrategy}) → ${spec.outputFile}`);
+  }
+
+  lines.push(
+    "",
+    "Examples:",
+    `  tsx main.ts generate --spec ${SPECS.slice(0, 2).map((spec) => spec.name)} --dry-run`,
+    `  tsx main.ts generate --source ${SPECS[0].name}=./${SPECS[0].name}.oas2.json --output-dir out`,
+    `  tsx main.ts diff --spec ${SPECS[0].name}`,
+    "  tsx main.ts consistency --output consistency.md",
+    `  tsx main.ts export-overlay --spec ${SPECS[0].name} --output ${SPECS[0].name}.overlay.yaml`,
+    `  tsx main.ts export-schemas --spec ${SPECS[0].name} --output out/${SPECS[0].name}-schemas`,
+    "  tsx main.ts validate out/*.oas3.json",
+  );
+
+  return `${lines.join("\n")}\n`;
+}
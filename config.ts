@@ -9,67 +9,28 @@ import type {
   SchemaFieldRename,
   EndpointTagTransform,
   BigIntField,
-  ProcessingConfig,
+  ConsistencyConfig,
+  FixedLengthByteField,
+  SpecConfig,
   SchemaVendorExtension,
   OperationIdTransform,
+  SpecDefinition,
 } from "./types.js";
 
-// ===== MISSING DESCRIPTIONS =====
-
-export const MISSING_DESCRIPTIONS = new Map([
-  // Component responses
-  ["components.responses.NodeStatusResponse.description", "Returns the current status of the node"],
-  ["components.responses.CatchpointStartResponse.description", "Catchpoint start operation response"],
-  ["components.responses.CatchpointAbortResponse.description", "Catchpoint abort operation response"],
-
-  // Path responses
-  ["paths.'/v2/transactions/async'(post).responses.200.description", "Transaction successfully submitted for asynchronous processing"],
-  ["paths.'/v2/status'(get).responses.200.description", "Returns the current node status including sync status, version, and latest round"],
-  ["paths.'/v2/catchup/{catchpoint}'(post).responses.200.description", "Catchpoint operation started successfully"],
-  ["paths.'/v2/catchup/{catchpoint}'(post).responses.201.description", "Catchpoint operation created and started successfully"],
-  ["paths.'/v2/catchup/{catchpoint}'(delete).responses.200.description", "Catchpoint operation aborted successfully"],
-  ["paths.'/v2/ledger/sync/{round}'(post).responses.200.description", "Ledger sync to specified round initiated successfully"],
-  ["paths.'/v2/shutdown'(post).responses.200.description", "Node shutdown initiated successfully"],
-  [
-    "paths.'/v2/status/wait-for-block-after/{round}'(get).responses.200.description",
-    "Returns node status after the specified round is reached",
-  ],
-  ["paths.'/v2/ledger/sync'(delete).responses.200.description", "Ledger sync operation stopped successfully"],
-]);
-
 // ===== FIELD RENAMES =====
+// Renames shared by algod and indexer; each spec config adds its own in fieldRenames
 
-export const FIELD_RENAMES: FieldRename[] = [
-  { from: "application-index", to: "app_id" },
-  { from: "app-index", to: "app_id" },
-  { from: "created-application-index", to: "created_app_id" },
-  { from: "asset-index", to: "asset_id" },
-  { from: "created-asset-index", to: "created_asset_id" },
-  { from: "index", to: "id", schemaName: "Asset" },
-  { from: "blockTxids", to: "block_tx_ids" },
-];
+export const FIELD_RENAMES: FieldRename[] = [{ from: "index", to: "id", schemaName: "Asset" }];
 
 // ===== BIGINT FIELDS =====
+// Integer fields that algod and indexer both mark with x-algokit-bigint; each spec config adds its own in bigIntFields
 
 export const BIGINT_FIELDS: BigIntField[] = [
   { fieldName: "fee" },
-  { fieldName: "min-fee" },
   { fieldName: "round" },
-  { fieldName: "round-number" },
-  { fieldName: "min-round" },
-  { fieldName: "max-round" },
-  { fieldName: "last-round" },
   { fieldName: "confirmed-round" },
   { fieldName: "asset-id" },
-  { fieldName: "created-application-index" },
-  { fieldName: "created-asset-index" },
-  { fieldName: "application-index" },
-  { fieldName: "asset-index" },
-  { fieldName: "current_round" },
-  { fieldName: "online-money" },
-  { fieldName: "total-money" },
   { fieldName: "amount" },
-  { fieldName: "asset-closing-amount" },
   { fieldName: "closing-amount" },
   { fieldName: "close_rewards" },
   { fieldName: "id" },
@@ -85,28 +46,12 @@ export const BIGINT_FIELDS: BigIntField[] = [
   { fieldName: "vote-first-valid" },
   { fieldName: "vote-key-dilution" },
   { fieldName: "vote-last-valid" },
-  { fieldName: "catchup-time" },
-  { fieldName: "time-since-last-round" },
-  { fieldName: "currency-greater-than" },
-  { fieldName: "currency-less-than" },
-  { fieldName: "rewards-calculation-round" },
-  { fieldName: "rewards-level" },
-  { fieldName: "rewards-rate" },
-  { fieldName: "rewards-residue" },
-  { fieldName: "next-protocol-switch-on" },
-  { fieldName: "next-protocol-vote-before" },
   { fieldName: "upgrade-delay" },
   { fieldName: "app" },
   { fieldName: "asset" },
-  { fieldName: "current-round" },
-  { fieldName: "application-id" },
-  { fieldName: "online-total-weight" },
-  { fieldName: "close-amount" },
   { fieldName: "close-rewards" },
   { fieldName: "receiver-rewards" },
   { fieldName: "sender-rewards" },
-  { fieldName: "first-valid" },
-  { fieldName: "last-valid" },
 ];
 
 // ===== SHARED VENDOR EXTENSION TRANSFORMS =====
@@ -134,53 +79,22 @@ export const BOX_REFERENCE_TRANSFORM: VendorExtensionTransform = {
 
 // ===== FIXED-LENGTH BYTE ARRAY FIELDS =====
 // Fields that represent fixed-length byte arrays (similar to js-algorand-sdk's FixedLengthByteArraySchema)
-// These are byte fields that should have a specific length constraint for validation
-
-export interface FixedLengthByteField {
-  fieldName: string;
-  byteLength: number;
-  schemaName?: string; // Optional: specific schema name to target
-}
+// These are byte fields that should have a specific length constraint for validation. Shared by algod and indexer;
+// indexer adds the block, transaction and heartbeat fields that algod only returns as msgpack.
 
 export const FIXED_LENGTH_BYTE_FIELDS: FixedLengthByteField[] = [
   // 32-byte fields (public keys, hashes)
   { fieldName: "genesis-hash", byteLength: 32 },
   { fieldName: "selection-participation-key", byteLength: 32 },
   { fieldName: "vote-participation-key", byteLength: 32 },
-  { fieldName: "previous-block-hash", byteLength: 32 },
-  { fieldName: "seed", byteLength: 32 },
-  { fieldName: "transactions-root", byteLength: 32 },
-  { fieldName: "transactions-root-sha256", byteLength: 32 },
   { fieldName: "metadata-hash", byteLength: 32 },
-  // Transaction fields (32-byte)
-  { fieldName: "lease", byteLength: 32 },
-  { fieldName: "group", byteLength: 32 },
-  // Multisig subsignature public key (32-byte)
-  { fieldName: "public-key", schemaName: "TransactionSignatureMultisigSubsignature", byteLength: 32 },
-  // Heartbeat fields (32-byte) - matching algokit-utils-ts
-  { fieldName: "hb-pk", byteLength: 32 },
-  { fieldName: "hb-pk2", byteLength: 32 },
-  { fieldName: "hb-vote-id", byteLength: 32 },
   // 64-byte fields (signatures, state proof keys, SHA-512 hashes)
   { fieldName: "state-proof-key", byteLength: 64 },
-  // State proof verifier commitment (64-byte) - MerkleSignatureSchemeRootSize = SumhashDigestSize = 64
-  { fieldName: "commitment", schemaName: "StateProofVerifier", byteLength: 64 },
-  // SHA-512 hash fields (64-byte)
-  { fieldName: "previous-block-hash-512", byteLength: 64 },
-  { fieldName: "transactions-root-sha512", byteLength: 64 },
-  // Transaction/multisig signatures (64-byte)
-  { fieldName: "signature", schemaName: "TransactionSignature", byteLength: 64 },
-  { fieldName: "signature", schemaName: "TransactionSignatureLogicsig", byteLength: 64 },
-  { fieldName: "signature", schemaName: "TransactionSignatureMultisigSubsignature", byteLength: 64 },
-  // Heartbeat signatures (64-byte)
-  { fieldName: "hb-sig", byteLength: 64 },
-  { fieldName: "hb-pk1sig", byteLength: 64 },
-  { fieldName: "hb-pk2sig", byteLength: 64 },
 ];
 
 // ===== ALGOD CONFIG =====
 
-export const ALGOD_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath"> = {
+export const ALGOD_CONFIG: SpecConfig = {
   requiredFieldTransforms: [
     {
       schemaName: "Genesis",
@@ -407,9 +321,7 @@ export const ALGOD_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath"> =
     { path: "/v2/transactions/pending", methods: ["get"] },
     { path: "/v2/transactions/pending/{txid}", methods: ["get"] },
     { path: "/v2/accounts/{address}/transactions/pending", methods: ["get"] },
-    { path: "/v2/deltas/{round}", methods: ["get"] },
-    { path: "/v2/deltas/txn/group/{id}", methods: ["get"] },
-    { path: "/v2/deltas/{round}/txn/group", methods: ["get"] },
+    { path: "/v2/deltas/**", methods: ["get"] },
     { path: "/v2/transactions/simulate", methods: ["post"] },
   ],
   jsonOnlyEndpoints: [
@@ -462,11 +374,66 @@ export const ALGOD_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath"> =
     { schemaName: "ApplicationLocalReference", extension: "x-algokit-locals-reference", value: true },
     { schemaName: "AssetHoldingReference", extension: "x-algokit-holding-reference", value: true },
   ],
+  fieldRenames: [
+    ...FIELD_RENAMES,
+    { from: "application-index", to: "app_id" },
+    { from: "app-index", to: "app_id" },
+    { from: "asset-index", to: "asset_id" },
+    { from: "blockTxids", to: "block_tx_ids" },
+  ],
+  bigIntFields: [
+    ...BIGINT_FIELDS,
+    { fieldName: "min-fee" },
+    { fieldName: "last-round" },
+    { fieldName: "application-index" },
+    { fieldName: "asset-index" },
+    { fieldName: "current_round" },
+    { fieldName: "online-money" },
+    { fieldName: "total-money" },
+    { fieldName: "asset-closing-amount" },
+    { fieldName: "catchup-time" },
+    { fieldName: "time-since-last-round" },
+  ],
+  fixedLengthByteFields: FIXED_LENGTH_BYTE_FIELDS,
+  // Responses upstream leaves without the description OpenAPI requires
+  descriptionOverrides: [
+    { pointer: "#/components/responses/NodeStatusResponse", description: "Returns the current status of the node" },
+    { pointer: "#/components/responses/CatchpointStartResponse", description: "Catchpoint start operation response" },
+    { pointer: "#/components/responses/CatchpointAbortResponse", description: "Catchpoint abort operation response" },
+    {
+      pointer: "#/paths/~1v2~1transactions~1async/post/responses/200",
+      description: "Transaction successfully submitted for asynchronous processing",
+    },
+    {
+      pointer: "#/paths/~1v2~1status/get/responses/200",
+      description: "Returns the current node status including sync status, version, and latest round",
+    },
+    { pointer: "#/paths/~1v2~1catchup~1{catchpoint}/post/responses/200", description: "Catchpoint operation started successfully" },
+    {
+      pointer: "#/paths/~1v2~1catchup~1{catchpoint}/post/responses/201",
+      description: "Catchpoint operation created and started successfully",
+    },
+    { pointer: "#/paths/~1v2~1catchup~1{catchpoint}/delete/responses/200", description: "Catchpoint operation aborted successfully" },
+    {
+      pointer: "#/paths/~1v2~1ledger~1sync~1{round}/post/responses/200",
+      description: "Ledger sync to specified round initiated successfully",
+    },
+    { pointer: "#/paths/~1v2~1shutdown/post/responses/200", description: "Node shutdown initiated successfully" },
+    {
+      pointer: "#/paths/~1v2~1status~1wait-for-block-after~1{round}/get/responses/200",
+      description: "Returns node status after the specified round is reached",
+    },
+    { pointer: "#/paths/~1v2~1ledger~1sync/delete/responses/200", description: "Ledger sync operation stopped successfully" },
+  ],
 };
 
 // ===== KMD CONFIG =====
 
-export const KMD_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath"> = {
+export const KMD_CONFIG: SpecConfig = {
+  textPatches: [
+    // Request schema descriptions start with the Go type name, e.g. "APIV1POSTWalletRequest is the request for `POST /v1/wallet`"
+    { find: "/APIV1(POST|DELETE)\\w+Request is the/", replace: "The" },
+  ],
   vendorExtensionTransforms: [
     ...UINT64_TRANSFORMS,
     {
@@ -642,7 +609,7 @@ export const KMD_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath"> = {
       },
     },
     {
-      fieldName: "addresses.items",
+      fieldName: "addresses[]",
       addItems: {
         "x-algorand-format": "Address",
       },
@@ -665,11 +632,15 @@ export const KMD_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath"> = {
 
 // ===== INDEXER CONFIG =====
 
-export const INDEXER_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath"> = {
+export const INDEXER_CONFIG: SpecConfig = {
+  textPatches: [
+    { find: "ana ccount", replace: "an account" },
+    { find: "since eposh", replace: "since epoch" },
+    // Duplicated "update" in the OnCompletion description; the raw text is JSON, so newlines are escaped
+    { find: "* update\\n* update\\n* delete", replace: "* update\\n* delete" },
+  ],
   vendorExtensionTransforms: [
-    ...UINT64_TRANSFORMS,
-    SIGNED_TXN_TRANSFORM,
-    BOX_REFERENCE_TRANSFORM,
+    // Upstream typo, fixed first so that the uint64 transforms see the field
     {
       sourceProperty: "x-algorand-foramt",
       sourceValue: "uint64",
@@ -677,6 +648,9 @@ export const INDEXER_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath">
       targetValue: "uint64",
       removeSource: true,
     },
+    ...UINT64_TRANSFORMS,
+    SIGNED_TXN_TRANSFORM,
+    BOX_REFERENCE_TRANSFORM,
   ],
   operationIdTransforms: [
     // Explicit renames
@@ -713,28 +687,14 @@ export const INDEXER_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath">
   fieldTransforms: [
     {
       fieldName: "num-uint",
-      schemaName: "ApplicationStateSchema",
-      addItems: {
-        "x-algokit-field-rename": "num_uints",
-      },
-    },
-    {
-      fieldName: "num-byte-slice",
-      schemaName: "ApplicationStateSchema",
-      addItems: {
-        "x-algokit-field-rename": "num_byte_slices",
-      },
-    },
-    {
-      fieldName: "num-uint",
-      schemaName: "StateSchema",
+      schemaName: "*StateSchema", // ApplicationStateSchema and StateSchema
       addItems: {
         "x-algokit-field-rename": "num_uints",
       },
     },
     {
       fieldName: "num-byte-slice",
-      schemaName: "StateSchema",
+      schemaName: "*StateSchema",
       addItems: {
         "x-algokit-field-rename": "num_byte_slices",
       },
@@ -762,18 +722,6 @@ export const INDEXER_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath">
         maximum: 3,
       },
     },
-    {
-      fieldName: "foreign-apps.items",
-      addItems: {
-        "x-algokit-bigint": true,
-      },
-    },
-    {
-      fieldName: "foreign-assets.items",
-      addItems: {
-        "x-algokit-bigint": true,
-      },
-    },
     {
       fieldName: "account-id.schema",
       addItems: {
@@ -793,13 +741,13 @@ export const INDEXER_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath">
       },
     },
     {
-      fieldName: "application-args.items",
+      fieldName: "application-args[]",
       addItems: {
         format: "byte",
       },
     },
     {
-      fieldName: "args.items",
+      fieldName: "args[]",
       addItems: {
         format: "byte",
       },
@@ -837,4 +785,146 @@ export const INDEXER_CONFIG: Omit<ProcessingConfig, "sourceUrl" | "outputPath">
       removeItems: ["x-algorand-format"],
     },
   ],
+  fieldRenames: [
+    ...FIELD_RENAMES,
+    { from: "created-application-index", to: "created_app_id" },
+    { from: "created-asset-index", to: "created_asset_id" },
+  ],
+  bigIntFields: [
+    ...BIGINT_FIELDS,
+    { fieldName: "round-number" },
+    { fieldName: "min-round" },
+    { fieldName: "max-round" },
+    { fieldName: "created-application-index" },
+    { fieldName: "created-asset-index" },
+    { fieldName: "currency-greater-than" },
+    { fieldName: "currency-less-than" },
+    { fieldName: "rewards-calculation-round" },
+    { fieldName: "rewards-level" },
+    { fieldName: "rewards-rate" },
+    { fieldName: "rewards-residue" },
+    { fieldName: "next-protocol-switch-on" },
+    { fieldName: "next-protocol-vote-before" },
+    { fieldName: "current-round" },
+    { fieldName: "online-total-weight" },
+    { fieldName: "close-amount" },
+    { fieldName: "first-valid" },
+    { fieldName: "last-valid" },
+    { fieldName: "foreign-apps[]" },
+    { fieldName: "foreign-assets[]" },
+  ],
+  fixedLengthByteFields: [
+    ...FIXED_LENGTH_BYTE_FIELDS,
+    // Block header hashes (32-byte)
+    { fieldName: "previous-block-hash", byteLength: 32 },
+    { fieldName: "seed", byteLength: 32 },
+    { fieldName: "transactions-root", byteLength: 32 },
+    { fieldName: "transactions-root-sha256", byteLength: 32 },
+    // Transaction fields (32-byte)
+    { fieldName: "lease", byteLength: 32 },
+    { fieldName: "group", byteLength: 32 },
+    // Multisig subsignature public key (32-byte)
+    { fieldName: "public-key", schemaName: "TransactionSignatureMultisigSubsignature", byteLength: 32 },
+    // Heartbeat fields (32-byte) - matching algokit-utils-ts
+    { fieldName: "hb-pk", byteLength: 32 },
+    { fieldName: "hb-pk2", byteLength: 32 },
+    { fieldName: "hb-vote-id", byteLength: 32 },
+    // State proof verifier commitment (64-byte) - MerkleSignatureSchemeRootSize = SumhashDigestSize = 64
+    { fieldName: "commitment", schemaName: "StateProofVerifier", byteLength: 64 },
+    // SHA-512 hash fields (64-byte)
+    { fieldName: "previous-block-hash-512", byteLength: 64 },
+    { fieldName: "transactions-root-sha512", byteLength: 64 },
+    // Transaction/multisig signatures (64-byte)
+    { fieldName: "signature", schemaName: "TransactionSignature", byteLength: 64 },
+    { fieldName: "signature", schemaName: "TransactionSignatureLogicsig", byteLength: 64 },
+    { fieldName: "signature", schemaName: "TransactionSignatureMultisigSubsignature", byteLength: 64 },
+    // Heartbeat signatures (64-byte)
+    { fieldName: "hb-sig", byteLength: 64 },
+    { fieldName: "hb-pk1sig", byteLength: 64 },
+    { fieldName: "hb-pk2sig", byteLength: 64 },
+  ],
+};
+
+// ===== SPEC DEFINITIONS =====
+
+export const SPECS: SpecDefinition[] = [
+  {
+    name: "algod",
+    cliFlag: "--algod-only",
+    config: ALGOD_CONFIG,
+    github: {
+      owner: "algorand",
+      repo: "go-algorand",
+      tagStrategy: "stable",
+      path: "daemon/algod/api/algod.oas2.json",
+    },
+    outputFile: "algod.oas3.json",
+  },
+  {
+    name: "kmd",
+    cliFlag: "--kmd-only",
+    config: KMD_CONFIG,
+    github: {
+      owner: "algorand",
+      repo: "go-algorand",
+      tagStrategy: "stable",
+      path: "daemon/kmd/api/swagger.json",
+    },
+    outputFile: "kmd.oas3.json",
+  },
+  {
+    name: "indexer",
+    cliFlag: "--indexer-only",
+    config: INDEXER_CONFIG,
+    github: {
+      owner: "algorand",
+      repo: "indexer",
+      tagStrategy: "latest-release",
+      path: "api/indexer.oas2.json",
+    },
+    outputFile: "indexer.oas3.json",
+  },
+];
+
+// ===== CROSS-SPEC CONSISTENCY =====
+// Schemas the consistency command compares under different names, and the differences it reports without failing
+
+export const CONSISTENCY_CONFIG: ConsistencyConfig = {
+  equivalents: [{ algod: "AvmValue", indexer: "TealValue" }],
+  allow: [
+    {
+      schema: "*",
+      kind: "format",
+      values: ["uint64", undefined],
+      reason: "Indexer leaves out `format: uint64`; x-algokit-bigint is compared on its own.",
+    },
+    {
+      schema: "ApplicationParams",
+      field: "/^(creator|approval-program|clear-state-program)$/",
+      kind: "required",
+      values: [true, false],
+      reason: "Indexer also returns deleted applications, whose params may be partial (see INDEXER_CONFIG.requiredFieldTransforms).",
+    },
+    {
+      schema: "Account",
+      field: "/^total-box(es|-bytes)$/",
+      kind: "required",
+      values: [false, true],
+      reason: "Algod leaves the box totals out of required upstream.",
+    },
+    {
+      schema: "/^EvalDelta(KeyValue)?$/",
+      field: "/^(bytes|key)$/",
+      kind: "extension",
+      values: [true, undefined],
+      reason: "x-algokit-bytes-base64 marks base64 strings inside msgpack responses, which indexer does not serve.",
+    },
+    {
+      schema: "AvmValue",
+      field: "/^(bytes|uint)$/",
+      kind: "required",
+      values: [false, true],
+      reason: "Indexer's TealValue always returns both values; algod's AvmValue only the one its type selects.",
+    },
+  ],
 };
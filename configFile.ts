@@ -0,0 +1,155 @@
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { LineCounter, parseDocument, isNode, type Document } from "yaml";
+import { Ajv, type ErrorObject } from "ajv";
+import { ALGOD_CONFIG, INDEXER_CONFIG, KMD_CONFIG } from "./config.js";
+import type { SpecConfig, SpecConfigFile } from "./types.js";
+
+// ===== PRESETS =====
+
+export const PRESETS: Record<string, SpecConfig> = {
+  algod: ALGOD_CONFIG,
+  kmd: KMD_CONFIG,
+  indexer: INDEXER_CONFIG,
+};
+
+const SCHEMA_PATH = resolve(dirname(fileURLToPath(import.meta.url)), "schemas", "spec-config.schema.json");
+
+export interface LoadedSpecConfig {
+  spec: string; // Name of the spec this config applies to
+  config: SpecConfig;
+  files: string[]; // Config files that contributed, outermost first
+}
+
+// ===== VALIDATION =====
+
+let validator: ReturnType<Ajv["compile"]> | undefined;
+
+async function getValidator(): Promise<ReturnType<Ajv["compile"]>> {
+  if (!validator) {
+    const schema = JSON.parse(await readFile(SCHEMA_PATH, "utf8"));
+    validator = new Ajv({ allErrors: true, strict: false }).compile(schema);
+  }
+  return validator;
+}
+
+/**
+ * Find the closest YAML node to a JSON Pointer, walking up to the parent when the target is missing
+ */
+function locate(doc: Document, lineCounter: LineCounter, instancePath: string): { line: number; col: number } {
+  const segments = instancePath
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+  for (let length = segments.length; length >= 0; length--) {
+    const node = length === 0 ? doc.contents : doc.getIn(segments.slice(0, length), true);
+    if (isNode(node) && node.range) {
+      return lineCounter.linePos(node.range[0]);
+    }
+  }
+  return { line: 1, col: 1 };
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  if (error.keyword === "additionalProperties") {
+    return `unknown property "${error.params.additionalProperty}"`;
+  }
+  if (error.keyword === "required") {
+    return `missing required property "${error.params.missingProperty}"`;
+  }
+  if (error.keyword === "enum") {
+    return `${error.message}: ${(error.params.allowedValues as unknown[]).map((v) => JSON.stringify(v)).join(", ")}`;
+  }
+  return error.message ?? error.keyword;
+}
+
+/**
+ * Parse a YAML or JSON config file and validate it against the spec config JSON Schema.
+ * Throws with one `file:line:col: message` entry per problem.
+ */
+async function parseConfigFile(path: string): Promise<SpecConfigFile> {
+  const source = await readFile(path, "utf8");
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    const messages = doc.errors.map((error) => {
+      const { line, col } = lineCounter.linePos(error.pos[0]);
+      return `${path}:${line}:${col}: ${error.message.split("\n")[0]}`;
+    });
+    throw new Error(`Invalid config file:\n${messages.join("\n")}`);
+  }
+
+  const data = doc.toJS();
+  const validate = await getValidator();
+  if (!validate(data)) {
+    const messages = (validate.errors ?? []).map((error) => {
+      const { line, col } = locate(doc, lineCounter, error.instancePath);
+      const location = error.instancePath || "/";
+      return `${path}:${line}:${col}: ${location} ${formatSchemaError(error)}`;
+    });
+    throw new Error(`Invalid config file:\n${messages.join("\n")}`);
+  }
+
+  return data as SpecConfigFile;
+}
+
+// ===== MERGING =====
+
+/**
+ * Layer `override` on top of `base`. Array entries are appended to the base entries unless the key is
+ * listed in `replace`; every other value replaces the base value.
+ */
+export function mergeSpecConfig(base: SpecConfig, override: SpecConfig, replace: (keyof SpecConfig)[] = []): SpecConfig {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = merged[key];
+    if (Array.isArray(value) && Array.isArray(baseValue) && !replace.includes(key as keyof SpecConfig)) {
+      merged[key] = [...baseValue, ...value];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged as SpecConfig;
+}
+
+// ===== LOADING =====
+
+/**
+ * Load a spec config file, resolving its `extends` chain against the built-in presets and other config files
+ */
+export async function loadSpecConfigFile(path: string, seen: string[] = []): Promise<LoadedSpecConfig> {
+  const absolutePath = resolve(path);
+  if (seen.includes(absolutePath)) {
+    throw new Error(`Circular config extends: ${[...seen, absolutePath].join(" → ")}`);
+  }
+
+  const { $schema: _schema, extends: parent, spec, replace, ...overrides } = await parseConfigFile(absolutePath);
+  if (overrides.plugins) {
+    overrides.plugins = overrides.plugins.map((plugin) => resolve(dirname(absolutePath), plugin));
+  }
+  if (overrides.overlays) {
+    overrides.overlays = overrides.overlays.map((overlay) => ({ ...overlay, path: resolve(dirname(absolutePath), overlay.path) }));
+  }
+
+  let base: LoadedSpecConfig | undefined;
+  if (parent && PRESETS[parent]) {
+    base = { spec: parent, config: PRESETS[parent], files: [] };
+  } else if (parent) {
+    base = await loadSpecConfigFile(resolve(dirname(absolutePath), parent), [...seen, absolutePath]);
+  }
+
+  const specName = spec ?? base?.spec;
+  if (!specName) {
+    throw new Error(`${path}: config must set "spec" or extend a built-in preset (${Object.keys(PRESETS).join(", ")})`);
+  }
+
+  return {
+    spec: specName,
+    config: base ? mergeSpecConfig(base.config, overrides, replace) : overrides,
+    files: [absolutePath, ...(base?.files ?? [])],
+  };
+}
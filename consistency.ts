@@ -0,0 +1,158 @@
+import { matchesSelector } from "./selectors.js";
+import type { ConsistencyAllowance, ConsistencyConfig, ConsistencyKind, OpenAPISpec } from "./types.js";
+
+// Cross-spec consistency: algod and indexer each define Account, ApplicationParams, TealValue and other shared
+// models with their own config rules, so the same field can end up bigint, renamed or byte-sized in one spec only.
+// Schemas with the same name (or configured as equivalents) are compared field by field.
+
+// ===== TYPES =====
+
+export interface NamedSpec {
+  name: string; // Spec name, e.g. "algod"
+  spec: OpenAPISpec;
+}
+
+export interface Inconsistency {
+  kind: ConsistencyKind;
+  specs: [string, string]; // e.g. ["algod", "indexer"]
+  schemas: [string, string]; // Schema name in each spec, usually the same
+  field: string;
+  message: string; // e.g. "`format` is `uint64` in algod, unset in indexer"
+  values: [unknown, unknown]; // What differs in each spec: type, format, whether required, or the extension's value
+  allowed?: string; // Reason from the allowance that covers it
+}
+
+// ===== HELPERS =====
+
+function schemasOf(spec: OpenAPISpec): Record<string, any> {
+  return spec.components?.schemas ?? {};
+}
+
+/**
+ * Pairs of schemas to compare between two specs: same-named schemas, then configured equivalents
+ */
+function schemaPairs(a: NamedSpec, b: NamedSpec, equivalents: Record<string, string>[]): [string, string][] {
+  const [schemasA, schemasB] = [schemasOf(a.spec), schemasOf(b.spec)];
+  const pairs: [string, string][] = Object.keys(schemasA)
+    .filter((name) => name in schemasB)
+    .map((name) => [name, name]);
+  for (const equivalent of equivalents) {
+    const [nameA, nameB] = [equivalent[a.name], equivalent[b.name]];
+    if (nameA && nameB && nameA !== nameB && nameA in schemasA && nameB in schemasB) pairs.push([nameA, nameB]);
+  }
+  return pairs;
+}
+
+/**
+ * Type of a field for comparison: its type, the schema it references, or `<item type>[]` for arrays
+ */
+function typeOf(schema: any): string {
+  if (typeof schema?.$ref === "string") return schema.$ref.split("/").pop();
+  if (schema?.type === "array") return `${typeOf(schema.items)}[]`;
+  return schema?.type ?? "any";
+}
+
+function algokitExtensions(schema: any): string[] {
+  return Object.keys(schema ?? {}).filter((key) => key.startsWith("x-algokit-") && key !== "x-algokit-original-name");
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? "unset" : `\`${JSON.stringify(value)}\``;
+}
+
+// ===== COMPARISON =====
+
+function compareSchemas(a: NamedSpec, b: NamedSpec, [nameA, nameB]: [string, string], found: Inconsistency[]): void {
+  const [schemaA, schemaB] = [schemasOf(a.spec)[nameA], schemasOf(b.spec)[nameB]];
+  const requiredA = new Set<string>(schemaA.required ?? []);
+  const requiredB = new Set<string>(schemaB.required ?? []);
+  const propsB: Record<string, any> = schemaB.properties ?? {};
+
+  for (const [field, defA] of Object.entries<any>(schemaA.properties ?? {})) {
+    if (!(field in propsB)) continue;
+    const defB = propsB[field];
+    const add = (kind: ConsistencyKind, message: string, values: [unknown, unknown]) =>
+      found.push({ kind, specs: [a.name, b.name], schemas: [nameA, nameB], field, message, values });
+
+    const [typeA, typeB] = [typeOf(defA), typeOf(defB)];
+    if (typeA !== typeB) add("type", `type is \`${typeA}\` in ${a.name}, \`${typeB}\` in ${b.name}`, [typeA, typeB]);
+    if (defA.format !== defB.format) {
+      const message = `\`format\` is ${describe(defA.format)} in ${a.name}, ${describe(defB.format)} in ${b.name}`;
+      add("format", message, [defA.format, defB.format]);
+    }
+    if (requiredA.has(field) !== requiredB.has(field)) {
+      const [required, optional] = requiredA.has(field) ? [a.name, b.name] : [b.name, a.name];
+      add("required", `required in ${required}, optional in ${optional}`, [requiredA.has(field), requiredB.has(field)]);
+    }
+    for (const key of new Set([...algokitExtensions(defA), ...algokitExtensions(defB)])) {
+      if (JSON.stringify(defA[key]) === JSON.stringify(defB[key])) continue;
+      add("extension", `\`${key}\` is ${describe(defA[key])} in ${a.name}, ${describe(defB[key])} in ${b.name}`, [defA[key], defB[key]]);
+    }
+  }
+}
+
+function allows(allowance: ConsistencyAllowance, inconsistency: Inconsistency): boolean {
+  return (
+    inconsistency.schemas.some((name) => matchesSelector(allowance.schema, name)) &&
+    (allowance.field === undefined || matchesSelector(allowance.field, inconsistency.field)) &&
+    (allowance.kind === undefined || allowance.kind === inconsistency.kind) &&
+    (allowance.values === undefined || allowance.values.every((value, i) => value === inconsistency.values[i]))
+  );
+}
+
+/**
+ * Compare the schemas every pair of specs shares, field by field: type, format, required and x-algokit-* extensions.
+ * Differences covered by an allowance carry its reason in `allowed`; `matches` counts what each allowance covered.
+ */
+export function checkConsistency(
+  specs: NamedSpec[],
+  config: ConsistencyConfig = {},
+  matches: Map<ConsistencyAllowance, number> = new Map(),
+): Inconsistency[] {
+  const found: Inconsistency[] = [];
+  specs.forEach((a, i) => {
+    for (const b of specs.slice(i + 1)) {
+      for (const pair of schemaPairs(a, b, config.equivalents ?? [])) compareSchemas(a, b, pair, found);
+    }
+  });
+
+  for (const inconsistency of found) {
+    const allowance = config.allow?.find((candidate) => allows(candidate, inconsistency));
+    if (!allowance) continue;
+    inconsistency.allowed = allowance.reason;
+    matches.set(allowance, (matches.get(allowance) ?? 0) + 1);
+  }
+  return found;
+}
+
+// ===== MARKDOWN =====
+
+function location({ specs, schemas, field }: Inconsistency): string {
+  const schema = schemas[0] === schemas[1] ? schemas[0] : `${schemas[0]} / ${schemas[1]}`;
+  return `${specs.join(" / ")} ${schema}.${field}`;
+}
+
+export function renderConsistencyMarkdown(inconsistencies: Inconsistency[]): string {
+  const lines = ["## Cross-spec consistency", ""];
+
+  if (inconsistencies.length === 0) {
+    lines.push("Shared schemas agree.");
+    return `${lines.join("\n")}\n`;
+  }
+
+  const unexpected = inconsistencies.filter((i) => !i.allowed);
+  const allowed = inconsistencies.filter((i) => i.allowed);
+
+  if (unexpected.length > 0) {
+    lines.push("### ⚠️ Inconsistencies", "");
+    unexpected.forEach((i) => lines.push(`- **${location(i)}** (${i.kind}): ${i.message}`));
+    lines.push("");
+  }
+  if (allowed.length > 0) {
+    lines.push("### Allowed differences", "");
+    allowed.forEach((i) => lines.push(`- **${location(i)}** (${i.kind}): ${i.message}. ${i.allowed}`));
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
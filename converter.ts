@@ -0,0 +1,522 @@
+import type { OAS2Spec, OpenAPISpec } from "./types.js";
+
+// ===== KEY ORDERING =====
+// Mirrors the property order emitted by swagger-parser-v2-converter so locally converted specs diff cleanly
+// against specs produced by the hosted converter.
+
+const SCHEMA_KEY_ORDER = [
+  "title",
+  "multipleOf",
+  "maximum",
+  "exclusiveMaximum",
+  "minimum",
+  "exclusiveMinimum",
+  "maxLength",
+  "minLength",
+  "pattern",
+  "maxItems",
+  "minItems",
+  "uniqueItems",
+  "maxProperties",
+  "minProperties",
+  "required",
+  "type",
+  "not",
+  "properties",
+  "additionalProperties",
+  "description",
+  "format",
+  "$ref",
+  "nullable",
+  "readOnly",
+  "writeOnly",
+  "example",
+  "externalDocs",
+  "deprecated",
+  "xml",
+  "enum",
+  "discriminator",
+  "default",
+  "items",
+  "allOf",
+  "anyOf",
+  "oneOf",
+];
+
+const PATH_ITEM_METHODS = ["get", "put", "post", "delete", "options", "head", "patch"] as const;
+
+const SCHEMA_PASSTHROUGH_KEYS = [
+  "title",
+  "multipleOf",
+  "maximum",
+  "exclusiveMaximum",
+  "minimum",
+  "exclusiveMinimum",
+  "maxLength",
+  "minLength",
+  "pattern",
+  "maxItems",
+  "minItems",
+  "uniqueItems",
+  "maxProperties",
+  "minProperties",
+  "required",
+  "description",
+  "format",
+  "readOnly",
+  "example",
+  "externalDocs",
+  "xml",
+  "enum",
+  "default",
+];
+
+const DEFAULT_MEDIA_TYPE = "*/*";
+
+// ===== HELPERS =====
+
+function isExtension(key: string): boolean {
+  return key.startsWith("x-");
+}
+
+function copyExtensions(source: any, target: Record<string, any>): Record<string, any> {
+  if (!source || typeof source !== "object") return target;
+  for (const [key, value] of Object.entries(source)) {
+    if (isExtension(key)) target[key] = value;
+  }
+  return target;
+}
+
+/**
+ * Rebuild an object with keys in the given order, leaving unknown keys after the known ones
+ * and vendor extensions last.
+ */
+function orderKeys(obj: Record<string, any>, order: readonly string[]): Record<string, any> {
+  const ordered: Record<string, any> = {};
+  for (const key of order) {
+    if (obj[key] !== undefined) ordered[key] = obj[key];
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    if (!(key in ordered) && !isExtension(key) && value !== undefined) ordered[key] = value;
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    if (isExtension(key)) ordered[key] = value;
+  }
+  return ordered;
+}
+
+function convertRef(ref: string): string {
+  if (ref.startsWith("#/definitions/")) return `#/components/schemas/${ref.substring("#/definitions/".length)}`;
+  if (ref.startsWith("#/parameters/")) return `#/components/parameters/${ref.substring("#/parameters/".length)}`;
+  if (ref.startsWith("#/responses/")) return `#/components/responses/${ref.substring("#/responses/".length)}`;
+  return ref;
+}
+
+function resolveLocal(spec: OAS2Spec, ref: string): any {
+  if (!ref.startsWith("#/")) return null;
+  let current: any = spec;
+  for (const part of ref.substring(2).split("/")) {
+    current = current?.[part.replace(/~1/g, "/").replace(/~0/g, "~")];
+    if (current === undefined) return null;
+  }
+  return current;
+}
+
+// ===== SCHEMAS =====
+
+/**
+ * Convert an OAS2 schema object (definitions, body parameters, responses) to an OAS3 schema
+ */
+function convertSchema(schema: any): any {
+  if (!schema || typeof schema !== "object") return schema;
+
+  if (typeof schema.$ref === "string") {
+    return { $ref: convertRef(schema.$ref) };
+  }
+
+  const converted: Record<string, any> = {};
+  for (const key of SCHEMA_PASSTHROUGH_KEYS) {
+    if (schema[key] !== undefined) converted[key] = schema[key];
+  }
+
+  if (schema.type === "file") {
+    converted.type = "string";
+    converted.format = "binary";
+  } else if (schema.type !== undefined) {
+    converted.type = schema.type;
+  }
+
+  if (schema["x-nullable"] === true) converted.nullable = true;
+
+  if (schema.properties && typeof schema.properties === "object") {
+    converted.properties = {};
+    for (const [name, prop] of Object.entries(schema.properties)) {
+      converted.properties[name] = convertSchema(prop);
+    }
+  }
+
+  if (schema.additionalProperties !== undefined) {
+    converted.additionalProperties =
+      typeof schema.additionalProperties === "object" ? convertSchema(schema.additionalProperties) : schema.additionalProperties;
+  }
+
+  if (schema.items !== undefined) {
+    converted.items = Array.isArray(schema.items) ? convertSchema(schema.items[0]) : convertSchema(schema.items);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    converted.allOf = schema.allOf.map(convertSchema);
+  }
+
+  if (typeof schema.discriminator === "string") {
+    converted.discriminator = { propertyName: schema.discriminator };
+  }
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (isExtension(key) && key !== "x-nullable") converted[key] = value;
+  }
+
+  return orderKeys(converted, SCHEMA_KEY_ORDER);
+}
+
+/**
+ * Build the OAS3 schema for a non-body parameter or a response header from its inline type fields
+ */
+function convertSimpleSchema(source: any): any {
+  const schema: Record<string, any> = {};
+  for (const key of SCHEMA_PASSTHROUGH_KEYS) {
+    if (key === "description" || key === "required") continue;
+    if (source[key] !== undefined) schema[key] = source[key];
+  }
+  if (source.type === "file") {
+    schema.type = "string";
+    schema.format = "binary";
+  } else if (source.type !== undefined) {
+    schema.type = source.type;
+  }
+  if (source.items) {
+    schema.items = convertSimpleSchema(source.items);
+  }
+  if (source["x-nullable"] === true) schema.nullable = true;
+  for (const [key, value] of Object.entries(source)) {
+    if (isExtension(key) && key !== "x-nullable") schema[key] = value;
+  }
+  return orderKeys(schema, SCHEMA_KEY_ORDER);
+}
+
+// ===== PARAMETERS =====
+
+/**
+ * Map an OAS2 collectionFormat to the equivalent OAS3 style/explode pair
+ */
+function convertCollectionFormat(param: any): { style?: string; explode?: boolean } {
+  if (param.type !== "array") return {};
+  const format = param.collectionFormat ?? "csv";
+  const isQueryOrForm = param.in === "query" || param.in === "formData";
+
+  switch (format) {
+    case "multi":
+      return { style: "form", explode: true };
+    case "ssv":
+      return isQueryOrForm ? { style: "spaceDelimited", explode: false } : {};
+    case "pipes":
+      return isQueryOrForm ? { style: "pipeDelimited", explode: false } : {};
+    case "csv":
+      return isQueryOrForm ? { style: "form", explode: false } : { style: "simple", explode: false };
+    default:
+      return {};
+  }
+}
+
+function convertParameter(param: any): any {
+  const converted: Record<string, any> = {
+    name: param.name,
+    in: param.in,
+    description: param.description,
+    required: param.in === "path" ? true : param.required,
+    deprecated: param.deprecated,
+    allowEmptyValue: param.allowEmptyValue,
+  };
+
+  const { style, explode } = convertCollectionFormat(param);
+  converted.style = style;
+  converted.explode = explode;
+  converted.schema = convertSimpleSchema(param);
+  copyExtensions(param, converted);
+
+  return orderKeys(converted, ["name", "in", "description", "required", "deprecated", "allowEmptyValue", "style", "explode", "schema"]);
+}
+
+function convertBodyParameter(param: any, mediaTypes: string[]): any {
+  const schema = convertSchema(param.schema ?? {});
+  const content: Record<string, any> = {};
+  for (const mediaType of mediaTypes) {
+    content[mediaType] = { schema: structuredClone(schema) };
+  }
+  const requestBody: Record<string, any> = {
+    description: param.description,
+    content,
+    required: param.required,
+  };
+  return orderKeys(copyExtensions(param, requestBody), ["description", "content", "required"]);
+}
+
+/**
+ * Collapse formData parameters into a single object schema request body
+ */
+function convertFormDataParameters(params: any[], mediaTypes: string[] | undefined): any {
+  const hasFile = params.some((p) => p.type === "file");
+  const types = mediaTypes?.length ? mediaTypes : [hasFile ? "multipart/form-data" : "application/x-www-form-urlencoded"];
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const param of params) {
+    const schema = convertSimpleSchema(param);
+    if (param.description) schema.description = param.description;
+    properties[param.name] = orderKeys(schema, SCHEMA_KEY_ORDER);
+    if (param.required) required.push(param.name);
+  }
+
+  const schema = orderKeys({ required: required.length > 0 ? required : undefined, type: "object", properties }, SCHEMA_KEY_ORDER);
+  const content: Record<string, any> = {};
+  for (const mediaType of types) {
+    content[mediaType] = { schema: structuredClone(schema) };
+  }
+  return { content, required: required.length > 0 ? true : undefined };
+}
+
+// ===== RESPONSES =====
+
+function convertResponse(response: any, mediaTypes: string[]): any {
+  if (typeof response?.$ref === "string") {
+    return { $ref: convertRef(response.$ref) };
+  }
+
+  const converted: Record<string, any> = { description: response.description };
+
+  if (response.headers) {
+    converted.headers = {};
+    for (const [name, header] of Object.entries(response.headers as Record<string, any>)) {
+      converted.headers[name] = orderKeys(
+        copyExtensions(header, { description: header.description, schema: convertSimpleSchema(header) }),
+        ["description", "schema"],
+      );
+    }
+  }
+
+  converted.content = {};
+  if (response.schema) {
+    const schema = convertSchema(response.schema);
+    for (const mediaType of mediaTypes) {
+      const media: Record<string, any> = { schema: structuredClone(schema) };
+      if (response.examples?.[mediaType] !== undefined) media.example = response.examples[mediaType];
+      converted.content[mediaType] = media;
+    }
+  }
+
+  return orderKeys(copyExtensions(response, converted), ["description", "headers", "content"]);
+}
+
+// ===== OPERATIONS =====
+
+interface ConversionContext {
+  spec: OAS2Spec;
+  globalConsumes?: string[];
+  globalProduces?: string[];
+}
+
+function resolveParameter(ctx: ConversionContext, param: any): any {
+  if (typeof param?.$ref === "string") {
+    return resolveLocal(ctx.spec, param.$ref) ?? param;
+  }
+  return param;
+}
+
+/**
+ * Convert one operation. `pathParameters` are the parameters of its path item: body and formData ones become part of
+ * the operation's request body unless the operation overrides them, the others stay on the path item.
+ */
+function convertOperation(ctx: ConversionContext, operation: any, pathParameters: any[] = []): any {
+  const converted: Record<string, any> = {
+    tags: operation.tags,
+    summary: operation.summary,
+    description: operation.description,
+    externalDocs: operation.externalDocs,
+    operationId: operation.operationId,
+  };
+
+  const consumes: string[] | undefined = operation.consumes ?? ctx.globalConsumes;
+  const produces: string[] = (operation.produces ?? ctx.globalProduces)?.length
+    ? (operation.produces ?? ctx.globalProduces)
+    : [DEFAULT_MEDIA_TYPE];
+
+  const parameters: any[] = [];
+  const formParams: any[] = [];
+
+  // An operation parameter overrides the path item's parameter of the same name and location, and any body parameter
+  // overrides the path item's body
+  const own = (operation.parameters ?? []).map((param: any) => resolveParameter(ctx, param));
+  const inherited = pathParameters
+    .map((param) => resolveParameter(ctx, param))
+    .filter((param) => param.in === "body" || param.in === "formData")
+    .filter((param) => !own.some((o: any) => o.in === param.in && (o.name === param.name || param.in === "body")));
+
+  // Shared parameters and responses are inlined into each operation, matching the hosted converter
+  for (const resolved of [...inherited, ...own]) {
+    if (resolved.in === "body") {
+      converted.requestBody = convertBodyParameter(resolved, consumes?.length ? consumes : [DEFAULT_MEDIA_TYPE]);
+      converted["x-codegen-request-body-name"] = resolved.name;
+    } else if (resolved.in === "formData") {
+      formParams.push(resolved);
+    } else {
+      parameters.push(convertParameter(resolved));
+    }
+  }
+
+  if (formParams.length > 0) {
+    converted.requestBody = convertFormDataParameters(formParams, consumes);
+  }
+
+  if (parameters.length > 0) converted.parameters = parameters;
+
+  if (operation.responses) {
+    converted.responses = {};
+    for (const [status, response] of Object.entries(operation.responses as Record<string, any>)) {
+      const resolved = typeof response?.$ref === "string" ? (resolveLocal(ctx.spec, response.$ref) ?? response) : response;
+      converted.responses[status] = convertResponse(resolved, produces);
+    }
+  }
+
+  converted.deprecated = operation.deprecated;
+  converted.security = operation.security;
+
+  // The request body name hint is emitted after every other extension, matching the hosted converter
+  const bodyName = converted["x-codegen-request-body-name"];
+  delete converted["x-codegen-request-body-name"];
+  copyExtensions(operation, converted);
+  if (bodyName !== undefined) converted["x-codegen-request-body-name"] = bodyName;
+
+  return orderKeys(converted, [
+    "tags",
+    "summary",
+    "description",
+    "externalDocs",
+    "operationId",
+    "parameters",
+    "requestBody",
+    "responses",
+    "deprecated",
+    "security",
+  ]);
+}
+
+// ===== SECURITY =====
+
+function convertSecurityScheme(scheme: any): any {
+  switch (scheme.type) {
+    case "basic":
+      return copyExtensions(scheme, { type: "http", description: scheme.description, scheme: "basic" });
+    case "apiKey":
+      return copyExtensions(scheme, { type: "apiKey", description: scheme.description, name: scheme.name, in: scheme.in });
+    case "oauth2": {
+      const flowName =
+        scheme.flow === "application" ? "clientCredentials" : scheme.flow === "accessCode" ? "authorizationCode" : scheme.flow;
+      const flow = orderKeys({ authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes: scheme.scopes ?? {} }, [
+        "authorizationUrl",
+        "tokenUrl",
+        "scopes",
+      ]);
+      return copyExtensions(scheme, { type: "oauth2", description: scheme.description, flows: { [flowName]: flow } });
+    }
+    default:
+      return scheme;
+  }
+}
+
+function convertServers(spec: OAS2Spec): any[] | undefined {
+  let baseUrl = spec.basePath || "/";
+  if (spec.host) baseUrl = `//${spec.host}${baseUrl}`;
+  if (!spec.schemes?.length) {
+    return baseUrl === "/" ? undefined : [{ url: baseUrl }];
+  }
+  return spec.schemes.map((scheme: string) => ({ url: `${scheme}:${baseUrl}` }));
+}
+
+// ===== CONVERTER =====
+
+/**
+ * Convert a Swagger 2.0 document to OpenAPI 3.0 in-process.
+ * Covers the subset of Swagger 2.0 used by the algod, indexer and KMD specs: definitions, shared and path-level
+ * parameters, responses, collectionFormat, consumes/produces, vendor extensions and the x-codegen-request-body-name hint.
+ */
+export function convertSwagger2ToOpenAPI3(spec: OAS2Spec): OpenAPISpec {
+  const ctx: ConversionContext = { spec, globalConsumes: spec.consumes, globalProduces: spec.produces };
+
+  const paths: Record<string, any> = {};
+  for (const [path, pathItem] of Object.entries((spec.paths ?? {}) as Record<string, any>)) {
+    if (!pathItem || typeof pathItem !== "object") continue;
+    const convertedItem: Record<string, any> = {};
+    for (const method of PATH_ITEM_METHODS) {
+      if (pathItem[method]) convertedItem[method] = convertOperation(ctx, pathItem[method], pathItem.parameters ?? []);
+    }
+    // Body and formData parameters went into each operation's request body
+    const parameters = (Array.isArray(pathItem.parameters) ? pathItem.parameters : [])
+      .map((param: any) => resolveParameter(ctx, param))
+      .filter((param: any) => param.in !== "body" && param.in !== "formData")
+      .map(convertParameter);
+    if (parameters.length > 0) convertedItem.parameters = parameters;
+    paths[path] = copyExtensions(pathItem, convertedItem);
+  }
+
+  const components: Record<string, any> = {};
+
+  if (spec.definitions && Object.keys(spec.definitions).length > 0) {
+    components.schemas = {};
+    for (const [name, schema] of Object.entries(spec.definitions)) {
+      components.schemas[name] = convertSchema(schema);
+    }
+  }
+
+  if (spec.responses && Object.keys(spec.responses).length > 0) {
+    const produces = spec.produces?.length ? spec.produces : [DEFAULT_MEDIA_TYPE];
+    components.responses = {};
+    for (const [name, response] of Object.entries(spec.responses)) {
+      components.responses[name] = convertResponse(response, produces);
+    }
+  }
+
+  if (spec.parameters && Object.keys(spec.parameters).length > 0) {
+    const consumes = spec.consumes?.length ? spec.consumes : [DEFAULT_MEDIA_TYPE];
+    for (const [name, param] of Object.entries(spec.parameters as Record<string, any>)) {
+      if (param.in === "body") {
+        components.requestBodies ??= {};
+        components.requestBodies[name] = convertBodyParameter(param, consumes);
+      } else if (param.in !== "formData") {
+        components.parameters ??= {};
+        components.parameters[name] = convertParameter(param);
+      }
+    }
+  }
+
+  if (spec.securityDefinitions) {
+    components.securitySchemes = {};
+    for (const [name, scheme] of Object.entries(spec.securityDefinitions as Record<string, any>)) {
+      components.securitySchemes[name] = convertSecurityScheme(scheme);
+    }
+  }
+
+  const converted: OpenAPISpec = {
+    openapi: "3.0.1",
+    info: spec.info ? orderKeys(spec.info, ["title", "description", "termsOfService", "contact", "license", "version"]) : undefined,
+    externalDocs: spec.externalDocs,
+    servers: convertServers(spec),
+    security: spec.security,
+    tags: spec.tags,
+    paths,
+    components: orderKeys(components, ["schemas", "responses", "parameters", "examples", "requestBodies", "headers", "securitySchemes"]),
+  };
+  copyExtensions(spec, converted);
+  converted["x-original-swagger-version"] = spec.swagger;
+
+  return orderKeys(converted, ["openapi", "info", "externalDocs", "servers", "security", "tags", "paths", "components"]);
+}
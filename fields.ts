@@ -0,0 +1,172 @@
+import { compileSelector, matchesSelector } from "./selectors.js";
+import { forEachSchemaObject } from "./traversal.js";
+import type { FieldScope, OpenAPISpec, Selector } from "./types.js";
+
+// Field targeting shared by the field passes (fixFieldNaming, fixBigInt, fixFixedLengthByteFields, inferBigInt).
+// A field is any named position a schema can take: a property of a component, request body or response schema at
+// any depth, an array's items, a map's additionalProperties, or a parameter. Rules select fields by a field path:
+//   "round"           a field named round, wherever it is
+//   "params.total"    total within an inline params object
+//   "foreign-apps[]"  the items of foreign-apps
+//   "balances{}"      the additionalProperties values of balances
+// A field path matches the end of a field's path, so "total" also matches params.total. Each name may be a glob;
+// a regex selector ("/^hb-/") always matches a single name. Where a field is is narrowed by FieldScope.
+
+// ===== TYPES =====
+
+export interface FieldPosition {
+  name: string; // Last name in the field path, e.g. "foreign-apps" for foreign-apps[]
+  segments: string[]; // Field path from the root schema or parameter, e.g. ["params", "total"] or ["foreign-apps", "[]"]
+  schema: any; // The field's schema
+  parameter?: any; // The parameter object, when the field is a parameter itself
+  schemaName?: string; // Component schema the field is in
+  path?: string; // API path of the operation the field is in, e.g. "/v2/blocks/{round}"
+  pointer: string[]; // Location of `schema` in the spec
+}
+
+const ITEMS = "[]";
+const ADDITIONAL_PROPERTIES = "{}";
+
+// ===== RESOLVING =====
+
+/**
+ * Index of the root schema in a schema pointer: the component schema, or the schema of a parameter, header or media
+ * type; undefined for headers, which are not fields
+ */
+function rootIndex(pointer: string[]): number | undefined {
+  if (pointer[0] === "components" && pointer[1] === "schemas") return 2;
+  const index = pointer.findIndex((key, i) => key === "schema" && ["parameters", "content", "headers"].includes(pointer[i - 2]));
+  return index >= 0 && pointer[index - 2] !== "headers" ? index : undefined;
+}
+
+/**
+ * Field path of the schema at `pointer` below its root schema, or undefined when the schema is not below a
+ * property, items or additionalProperties (allOf, oneOf and anyOf are looked through, but their members are not
+ * fields themselves; `not` is not a field)
+ */
+function fieldSegments(pointer: string[], root: number): string[] | undefined {
+  const segments: string[] = [];
+  for (let i = root + 1; i < pointer.length; i++) {
+    const key = pointer[i];
+    if (key === "properties") {
+      segments.push(pointer[++i]);
+    } else if (key === "items") {
+      segments.push(ITEMS);
+    } else if (key === "additionalProperties") {
+      segments.push(ADDITIONAL_PROPERTIES);
+    } else if ((key === "allOf" || key === "oneOf" || key === "anyOf") && i + 2 < pointer.length) {
+      i++;
+    } else {
+      return undefined;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Visit every field of the spec, in forEachSchemaObject order. Fields given as $refs are visited at the schema they
+ * refer to, not where they are used.
+ */
+export function forEachField(spec: OpenAPISpec, callback: (field: FieldPosition) => void): void {
+  forEachSchemaObject(spec, (schema, pointer) => {
+    const root = rootIndex(pointer);
+    if (root === undefined) return;
+    const segments = fieldSegments(pointer, root);
+    if (!segments) return;
+
+    const holder = pointer[root] === "schema" ? pointer.slice(0, root).reduce((obj: any, key) => obj?.[key], spec) : undefined;
+    const isParameter = typeof holder?.in === "string" && typeof holder.name === "string";
+    if (isParameter) segments.unshift(holder.name);
+
+    const name = segments.findLast((segment) => segment !== ITEMS && segment !== ADDITIONAL_PROPERTIES);
+    if (name === undefined) return;
+    callback({
+      name,
+      segments,
+      schema,
+      ...(isParameter && segments.length === 1 && { parameter: holder }),
+      schemaName: pointer[0] === "components" && pointer[1] === "schemas" ? pointer[2] : undefined,
+      path: pointer[0] === "paths" ? pointer[1] : undefined,
+      pointer,
+    });
+  });
+}
+
+// ===== SELECTING =====
+
+// Parsed field paths by selector, so that each is only parsed once
+const parsed = new Map<string, string[]>();
+
+/**
+ * Split a field path selector into names and "[]"/"{}" segments, e.g. "params.foreign-apps[]" →
+ * ["params", "foreign-apps", "[]"]. Throws on a malformed path.
+ */
+export function parseFieldPath(selector: Selector): string[] {
+  let segments = parsed.get(selector);
+  if (segments) return segments;
+
+  if (compileSelector(selector).kind === "regex") {
+    segments = [selector];
+  } else {
+    segments = selector.split(".").flatMap((part) => {
+      const [, name, suffixes] = /^([^[\]{}]+)((?:\[\]|\{\})*)$/.exec(part) ?? [];
+      if (name === undefined) throw new Error(`Invalid field path "${selector}": expected name, name[] or name{} between dots`);
+      return [name, ...(suffixes.match(/\[\]|\{\}/g) ?? [])];
+    });
+  }
+  parsed.set(selector, segments);
+  return segments;
+}
+
+/**
+ * Whether a field path selector matches the end of the field's path
+ */
+export function matchesField(selector: Selector, field: FieldPosition): boolean {
+  const wanted = parseFieldPath(selector);
+  const tail = field.segments.slice(-wanted.length);
+  if (tail.length !== wanted.length) return false;
+  return wanted.every((segment, i) =>
+    segment === ITEMS || segment === ADDITIONAL_PROPERTIES ? tail[i] === segment : matchesSelector(segment, tail[i]),
+  );
+}
+
+/**
+ * The last name a field path selector matches, e.g. "total" for "params.total"; renames apply to this name
+ */
+export function lastFieldName(selector: Selector): Selector {
+  return parseFieldPath(selector).findLast((segment) => segment !== ITEMS && segment !== ADDITIONAL_PROPERTIES) ?? selector;
+}
+
+/**
+ * Whether a field is within a rule's scope: in one of its schemas or under its API path, and not in an excluded model.
+ * Rules scoped to a schema never match fields outside component schemas, and rules scoped to a path never match
+ * component schema fields.
+ */
+export function inFieldScope(rule: FieldScope, field: FieldPosition): boolean {
+  const { schemaName, path } = field;
+  if (rule.schemaName && (schemaName === undefined || !matchesSelector(rule.schemaName, schemaName))) return false;
+  if (rule.path && (path === undefined || !matchesSelector(rule.path, path))) return false;
+  return !(schemaName !== undefined && rule.excludedModels?.some((model) => matchesSelector(model, schemaName)));
+}
+
+// ===== LABELS =====
+
+/**
+ * Field path as written in selectors, e.g. "params.total" or "foreign-apps[]"
+ */
+export function formatFieldPath(segments: string[]): string {
+  return segments.reduce(
+    (text, segment) => (segment === ITEMS || segment === ADDITIONAL_PROPERTIES || !text ? text + segment : `${text}.${segment}`),
+    "",
+  );
+}
+
+/**
+ * Label of a field for reports: "Account.params.total" in component schemas, "/v2/blocks/{round} round" under
+ * API paths, otherwise just the field path
+ */
+export function fieldPositionLabel(field: FieldPosition): string {
+  const fieldPath = formatFieldPath(field.segments);
+  if (field.schemaName) return `${field.schemaName}.${fieldPath}`;
+  return field.path ? `${field.path} ${fieldPath}` : fieldPath;
+}
@@ -0,0 +1,65 @@
+// ===== JSON POINTERS =====
+
+export function escapePointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+export function toPointer(path: (string | number)[]): string {
+  return path.map((segment) => `/${escapePointerSegment(segment)}`).join("");
+}
+
+// ===== STRUCTURAL DIFF =====
+
+export interface JsonChange {
+  op: "add" | "remove" | "replace";
+  pointer: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Structurally compare two JSON values and list the smallest changes that turn `before` into `after`.
+ * Key order is ignored; arrays are compared index by index.
+ */
+export function diffJson(before: unknown, after: unknown, pointer = ""): JsonChange[] {
+  if (before === after) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    const shared = Math.min(before.length, after.length);
+    for (let i = 0; i < shared; i++) {
+      changes.push(...diffJson(before[i], after[i], `${pointer}/${i}`));
+    }
+    for (let i = shared; i < after.length; i++) {
+      changes.push({ op: "add", pointer: `${pointer}/${i}`, after: after[i] });
+    }
+    for (let i = before.length - 1; i >= shared; i--) {
+      changes.push({ op: "remove", pointer: `${pointer}/${i}`, before: before[i] });
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: JsonChange[] = [];
+    for (const [key, value] of Object.entries(before)) {
+      const childPointer = `${pointer}/${escapePointerSegment(key)}`;
+      if (!(key in after)) {
+        changes.push({ op: "remove", pointer: childPointer, before: value });
+      } else {
+        changes.push(...diffJson(value, after[key], childPointer));
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (!(key in before)) {
+        changes.push({ op: "add", pointer: `${pointer}/${escapePointerSegment(key)}`, after: value });
+      }
+    }
+    return changes;
+  }
+
+  return [{ op: "replace", pointer, before, after }];
+}
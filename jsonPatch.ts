@@ -0,0 +1,164 @@
+import { isDeepStrictEqual } from "node:util";
+import { toPointer } from "./jsonDiff.js";
+import type { JsonPatchOperation } from "./types.js";
+
+// RFC 6902 JSON Patch, used by the jsonPatches config section for one-off fixes that no transform covers.
+// Paths are JSON Pointers ("/components/schemas/Account") or, as written in a $ref, URI fragments
+// ("#/components/schemas/Account").
+
+// ===== POINTERS =====
+
+/**
+ * Split a patch path into unescaped reference tokens
+ */
+export function parsePatchPath(path: string): string[] {
+  const pointer = path.startsWith("#") ? decodeURIComponent(path.slice(1)) : path;
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON patch path "${path}": expected a JSON Pointer ("/a/b") or a fragment ("#/a/b")`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isContainer(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object";
+}
+
+function arrayIndex(array: any[], token: string, allowEnd: boolean): number | undefined {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) return undefined;
+  const index = Number(token);
+  return index < array.length || (allowEnd && index === array.length) ? index : undefined;
+}
+
+/**
+ * Value at `tokens`, or undefined when any segment is missing
+ */
+function lookup(doc: unknown, tokens: string[]): unknown {
+  let current: unknown = doc;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      const index = arrayIndex(current, token, false);
+      if (index === undefined) return undefined;
+      current = current[index];
+    } else if (isContainer(current) && Object.hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Value at a patch path (JSON Pointer or fragment), or undefined when it doesn't exist
+ */
+export function resolvePatchPath(doc: unknown, path: string): unknown {
+  return lookup(doc, parsePatchPath(path));
+}
+
+// ===== OPERATIONS =====
+
+function parentOf(doc: unknown, tokens: string[]): Record<string, any> {
+  const parent = lookup(doc, tokens.slice(0, -1));
+  if (!isContainer(parent)) {
+    throw new Error(`${toPointer(tokens.slice(0, -1)) || "/"} does not exist`);
+  }
+  return parent;
+}
+
+function valueAt(doc: unknown, tokens: string[]): unknown {
+  const value = lookup(doc, tokens);
+  if (value === undefined) {
+    throw new Error(`${toPointer(tokens)} does not exist`);
+  }
+  return value;
+}
+
+function addValue(doc: unknown, tokens: string[], value: unknown): void {
+  const parent = parentOf(doc, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, key, true);
+    if (index === undefined) throw new Error(`${toPointer(tokens)} is not a valid index into an array of ${parent.length}`);
+    parent.splice(index, 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+function removeValue(doc: unknown, tokens: string[]): unknown {
+  const value = valueAt(doc, tokens);
+  const parent = parentOf(doc, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return value;
+}
+
+function applyOperation(doc: Record<string, any>, operation: JsonPatchOperation): void {
+  const tokens = parsePatchPath(operation.path);
+  if (tokens.length === 0 && operation.op !== "test") {
+    throw new Error("the document root cannot be patched");
+  }
+
+  switch (operation.op) {
+    case "add":
+      addValue(doc, tokens, structuredClone(operation.value));
+      break;
+    case "remove":
+      removeValue(doc, tokens);
+      break;
+    case "replace":
+      valueAt(doc, tokens);
+      parentOf(doc, tokens)[tokens[tokens.length - 1]] = structuredClone(operation.value);
+      break;
+    case "move": {
+      const from = parsePatchPath(operation.from);
+      if (tokens.length > from.length && from.every((token, i) => tokens[i] === token)) {
+        throw new Error(`cannot move ${toPointer(from)} into its own child ${toPointer(tokens)}`);
+      }
+      addValue(doc, tokens, removeValue(doc, from));
+      break;
+    }
+    case "copy":
+      addValue(doc, tokens, structuredClone(valueAt(doc, parsePatchPath(operation.from))));
+      break;
+    case "test": {
+      const actual = lookup(doc, tokens);
+      if (actual === undefined) throw new Error(`${toPointer(tokens)} does not exist`);
+      if (!isDeepStrictEqual(actual, operation.value)) {
+        throw new Error(`test failed: expected ${JSON.stringify(operation.value)}, found ${JSON.stringify(actual)}`);
+      }
+      break;
+    }
+    default:
+      throw new Error(`unknown op "${(operation as { op: string }).op}"`);
+  }
+}
+
+/**
+ * Apply the operations of a patch to `doc` in order, returning how many changed it (tests don't). Throws on the first
+ * operation that fails; `name` identifies the patch in the error, e.g. "jsonPatches[2]".
+ */
+export function applyJsonPatch(doc: Record<string, any>, operations: JsonPatchOperation[], name: string): number {
+  let applied = 0;
+
+  for (const [index, operation] of operations.entries()) {
+    try {
+      applyOperation(doc, operation);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : error;
+      throw new Error(`${name} operation ${index + 1} (${operation.op} ${operation.path}) failed: ${reason}`);
+    }
+    if (operation.op !== "test") applied++;
+  }
+
+  return applied;
+}
@@ -0,0 +1,347 @@
+import { isDeepStrictEqual } from "node:util";
+
+// JSONPath (RFC 9535) queries, as used by Overlay `target`s. Supported: the root `$`, child names (`.name`,
+// `['name']`), wildcards (`*`, `[*]`), indexes and slices (`[0]`, `[-1]`, `[1:3]`), unions (`['a','b']`), descendants
+// (`..name`) and filters (`[?@.in == 'query']`, `[?(@.required)]`) with comparisons, `&&`, `||` and `!`.
+// Function extensions such as length() and match() are not supported.
+
+// ===== TYPES =====
+
+export interface JsonPathNode {
+  value: any;
+  parent: any; // Object or array holding the value; null for the root
+  key: string | number | null;
+}
+
+type Selector =
+  | { kind: "name"; name: string }
+  | { kind: "wildcard" }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start?: number; end?: number; step: number }
+  | { kind: "filter"; expression: Expression };
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+type Expression =
+  | { kind: "or" | "and"; left: Expression; right: Expression }
+  | { kind: "not"; operand: Expression }
+  | { kind: "exists"; query: Query }
+  | { kind: "compare"; op: "==" | "!=" | "<" | "<=" | ">" | ">="; left: Operand; right: Operand };
+
+type Operand = { kind: "literal"; value: unknown } | { kind: "query"; query: Query };
+
+interface Query {
+  relative: boolean; // @ rather than $
+  segments: Segment[];
+}
+
+// ===== PARSING =====
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  fail(message: string): never {
+    throw new Error(`Invalid JSONPath "${this.text}" at ${this.pos}: ${message}`);
+  }
+
+  private peek(token: string): boolean {
+    return this.text.startsWith(token, this.pos);
+  }
+
+  private skipSpaces(): void {
+    while (/\s/.test(this.text[this.pos] ?? "")) this.pos++;
+  }
+
+  private eat(token: string): boolean {
+    this.skipSpaces();
+    if (!this.peek(token)) return false;
+    this.pos += token.length;
+    return true;
+  }
+
+  private expect(token: string): void {
+    if (!this.eat(token)) this.fail(`expected "${token}"`);
+  }
+
+  parseQuery(): Query {
+    const query = this.query();
+    this.skipSpaces();
+    if (this.pos < this.text.length) this.fail("unexpected characters");
+    return query;
+  }
+
+  private query(): Query {
+    this.skipSpaces();
+    const root = this.text[this.pos];
+    if (root !== "$" && root !== "@") this.fail('expected "$"');
+    this.pos++;
+    const segments: Segment[] = [];
+    for (;;) {
+      if (this.peek("..")) {
+        this.pos += 2;
+        segments.push({ descendant: true, selectors: this.peek("[") ? this.bracket() : [this.dotSelector()] });
+      } else if (this.peek(".")) {
+        this.pos++;
+        segments.push({ descendant: false, selectors: [this.dotSelector()] });
+      } else if (this.peek("[")) {
+        segments.push({ descendant: false, selectors: this.bracket() });
+      } else {
+        return { relative: root === "@", segments };
+      }
+    }
+  }
+
+  private dotSelector(): Selector {
+    if (this.peek("*")) {
+      this.pos++;
+      return { kind: "wildcard" };
+    }
+    const name = /^[A-Za-z_\u0080-￿][\w\u0080-￿-]*/.exec(this.text.slice(this.pos))?.[0];
+    if (!name) this.fail("expected a member name");
+    this.pos += name.length;
+    return { kind: "name", name };
+  }
+
+  private bracket(): Selector[] {
+    this.expect("[");
+    const selectors = [this.bracketSelector()];
+    while (this.eat(",")) selectors.push(this.bracketSelector());
+    this.expect("]");
+    return selectors;
+  }
+
+  private bracketSelector(): Selector {
+    this.skipSpaces();
+    if (this.eat("*")) return { kind: "wildcard" };
+    if (this.eat("?")) return { kind: "filter", expression: this.or() };
+    if (this.peek("'") || this.peek('"')) return { kind: "name", name: this.string() };
+
+    const start = this.integer();
+    if (!this.eat(":")) {
+      if (start === undefined) this.fail("expected a selector");
+      return { kind: "index", index: start };
+    }
+    const end = this.integer();
+    const step = this.eat(":") ? (this.integer() ?? 1) : 1;
+    if (step === 0) this.fail("slice step cannot be 0");
+    return { kind: "slice", start, end, step };
+  }
+
+  private integer(): number | undefined {
+    this.skipSpaces();
+    const digits = /^-?\d+/.exec(this.text.slice(this.pos))?.[0];
+    if (digits === undefined) return undefined;
+    this.pos += digits.length;
+    return Number(digits);
+  }
+
+  private string(): string {
+    const quote = this.text[this.pos++];
+    let value = "";
+    while (this.pos < this.text.length && this.text[this.pos] !== quote) {
+      const char = this.text[this.pos++];
+      if (char !== "\\") {
+        value += char;
+        continue;
+      }
+      const escaped = this.text[this.pos++];
+      if (escaped === "u") {
+        value += String.fromCharCode(parseInt(this.text.slice(this.pos, this.pos + 4), 16));
+        this.pos += 4;
+      } else {
+        value += { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" }[escaped] ?? escaped;
+      }
+    }
+    if (this.text[this.pos] !== quote) this.fail("unterminated string");
+    this.pos++;
+    return value;
+  }
+
+  private or(): Expression {
+    let left = this.and();
+    while (this.eat("||")) left = { kind: "or", left, right: this.and() };
+    return left;
+  }
+
+  private and(): Expression {
+    let left = this.unary();
+    while (this.eat("&&")) left = { kind: "and", left, right: this.unary() };
+    return left;
+  }
+
+  private unary(): Expression {
+    if (this.eat("!")) return { kind: "not", operand: this.unary() };
+    if (this.eat("(")) {
+      const expression = this.or();
+      this.expect(")");
+      return expression;
+    }
+
+    const left = this.operand();
+    this.skipSpaces();
+    const op = (["==", "!=", "<=", ">=", "<", ">"] as const).find((candidate) => this.peek(candidate));
+    if (!op) {
+      if (left.kind !== "query") this.fail("expected a comparison");
+      return { kind: "exists", query: left.query };
+    }
+    this.pos += op.length;
+    return { kind: "compare", op, left, right: this.operand() };
+  }
+
+  private operand(): Operand {
+    this.skipSpaces();
+    if (this.peek("@") || this.peek("$")) return { kind: "query", query: this.query() };
+    if (this.peek("'") || this.peek('"')) return { kind: "literal", value: this.string() };
+    for (const [token, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (this.eat(token)) return { kind: "literal", value };
+    }
+    const number = /^-?\d+(\.\d+)?([eE][-+]?\d+)?/.exec(this.text.slice(this.pos))?.[0];
+    if (number === undefined) this.fail("expected a literal or a query");
+    this.pos += number.length;
+    return { kind: "literal", value: Number(number) };
+  }
+}
+
+// Parsed queries by source, so that a target applied to many documents is only parsed once
+const parsed = new Map<string, Query>();
+
+function parseJsonPath(path: string): Query {
+  let query = parsed.get(path);
+  if (!query) {
+    query = new Parser(path).parseQuery();
+    if (query.relative) throw new Error(`Invalid JSONPath "${path}": queries must start with "$"`);
+    parsed.set(path, query);
+  }
+  return query;
+}
+
+// ===== EVALUATION =====
+
+function children(node: JsonPathNode): JsonPathNode[] {
+  const { value } = node;
+  if (Array.isArray(value)) return value.map((item, index) => ({ value: item, parent: value, key: index }));
+  if (value && typeof value === "object") return Object.entries(value).map(([key, item]) => ({ value: item, parent: value, key }));
+  return [];
+}
+
+function descendants(node: JsonPathNode): JsonPathNode[] {
+  return [node, ...children(node).flatMap(descendants)];
+}
+
+function sliceIndexes(length: number, { start, end, step }: { start?: number; end?: number; step: number }): number[] {
+  const normalize = (index: number) => (index >= 0 ? index : length + index);
+  const indexes: number[] = [];
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalize(start ?? 0), 0), length);
+    const upper = Math.min(Math.max(normalize(end ?? length), 0), length);
+    for (let i = lower; i < upper; i += step) indexes.push(i);
+  } else {
+    const upper = Math.min(Math.max(normalize(start ?? length - 1), -1), length - 1);
+    const lower = Math.min(Math.max(end === undefined ? -1 : normalize(end), -1), length - 1);
+    for (let i = upper; i > lower; i += step) indexes.push(i);
+  }
+  return indexes;
+}
+
+function select(node: JsonPathNode, selector: Selector, root: any): JsonPathNode[] {
+  const { value } = node;
+  switch (selector.kind) {
+    case "name":
+      return value && typeof value === "object" && !Array.isArray(value) && Object.hasOwn(value, selector.name)
+        ? [{ value: value[selector.name], parent: value, key: selector.name }]
+        : [];
+    case "wildcard":
+      return children(node);
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index >= 0 ? selector.index : value.length + selector.index;
+      return index >= 0 && index < value.length ? [{ value: value[index], parent: value, key: index }] : [];
+    }
+    case "slice":
+      return Array.isArray(value) ? sliceIndexes(value.length, selector).map((i) => ({ value: value[i], parent: value, key: i })) : [];
+    case "filter":
+      return children(node).filter((child) => test(selector.expression, child.value, root));
+  }
+}
+
+function evaluate(query: Query, current: any, root: any): JsonPathNode[] {
+  let nodes: JsonPathNode[] = [{ value: query.relative ? current : root, parent: null, key: null }];
+  for (const segment of query.segments) {
+    const inputs = segment.descendant ? nodes.flatMap(descendants) : nodes;
+    nodes = inputs.flatMap((node) => segment.selectors.flatMap((selector) => select(node, selector, root)));
+  }
+  return nodes;
+}
+
+const NOTHING = Symbol("nothing");
+
+function operandValue(operand: Operand, current: any, root: any): unknown {
+  if (operand.kind === "literal") return operand.value;
+  const nodes = evaluate(operand.query, current, root);
+  return nodes.length === 1 ? nodes[0].value : NOTHING;
+}
+
+function compare(op: string, left: unknown, right: unknown): boolean {
+  switch (op) {
+    case "==":
+      return left === right || (left !== NOTHING && right !== NOTHING && isDeepStrictEqual(left, right));
+    case "!=":
+      return !compare("==", left, right);
+    default: {
+      const comparable = (typeof left === "number" && typeof right === "number") || (typeof left === "string" && typeof right === "string");
+      if (!comparable) return (op === "<=" || op === ">=") && compare("==", left, right);
+      const [a, b] = [left as number | string, right as number | string];
+      return op === "<" ? a < b : op === "<=" ? a <= b : op === ">" ? a > b : a >= b;
+    }
+  }
+}
+
+function test(expression: Expression, current: any, root: any): boolean {
+  switch (expression.kind) {
+    case "or":
+      return test(expression.left, current, root) || test(expression.right, current, root);
+    case "and":
+      return test(expression.left, current, root) && test(expression.right, current, root);
+    case "not":
+      return !test(expression.operand, current, root);
+    case "exists":
+      return evaluate(expression.query, current, root).length > 0;
+    case "compare":
+      return compare(expression.op, operandValue(expression.left, current, root), operandValue(expression.right, current, root));
+  }
+}
+
+/**
+ * Nodes of `document` selected by a JSONPath query, in document order. Throws on queries that don't parse.
+ */
+export function queryJsonPath(document: unknown, path: string): JsonPathNode[] {
+  return evaluate(parseJsonPath(path), document, document);
+}
+
+// ===== FORMATTING =====
+
+/**
+ * Normalized JSONPath for a location given as path segments, e.g. ["paths", "/v2/status", "get"] →
+ * $.paths['/v2/status'].get
+ */
+export function toJsonPath(path: (string | number)[]): string {
+  return (
+    "$" +
+    path
+      .map((segment) => {
+        if (typeof segment === "number") return `[${segment}]`;
+        if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) return `.${segment}`;
+        return `['${segment.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}']`;
+      })
+      .join("")
+  );
+}
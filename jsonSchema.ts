@@ -0,0 +1,143 @@
+import { upgradeSchema } from "./openapi31.js";
+import { forEachSchemaObject } from "./traversal.js";
+import type { OpenAPISpec } from "./types.js";
+
+// Standalone JSON Schema 2020-12 export: each components.schemas entry becomes its own file, `<Name>.schema.json`,
+// referring to the others by relative $ref, plus `index.schema.json` with a $defs entry per schema. OpenAPI-only
+// keywords are converted as for OpenAPI 3.1 output, and the x-algokit extensions that have a JSON Schema equivalent
+// are replaced by it:
+//   format: byte            contentEncoding: base64
+//   format: binary          contentMediaType: application/octet-stream
+//   x-algokit-byte-length   a pattern matching the base64 encoding of exactly that many bytes (replacing a plain
+//                           base64 pattern, or added with allOf next to any other)
+//   x-algokit-bigint        minimum and maximum of a 64-bit integer (signed for format: int64, else unsigned)
+// discriminator, xml and externalDocs have no equivalent and are dropped; other extensions are kept as annotations.
+
+// ===== TYPES =====
+
+export interface SchemaFile {
+  name: string; // Component schema name, e.g. "Account"
+  fileName: string; // e.g. "Account.schema.json"
+  schema: Record<string, any>; // May hold bigint bounds, see formatSchemaFile
+}
+
+export interface SchemaBundle {
+  files: SchemaFile[];
+  index: SchemaFile;
+}
+
+const DIALECT = "https://json-schema.org/draft/2020-12/schema";
+const INDEX_FILE = "index.schema.json";
+const COMPONENT_REF = "#/components/schemas/";
+const OPENAPI_ONLY_KEYWORDS = ["discriminator", "xml", "externalDocs"];
+// Pattern upstream gives base64 fields, which a length pattern makes redundant
+const BASE64_PATTERN = "^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$";
+
+const UINT64_RANGE = [0n, 2n ** 64n - 1n];
+const INT64_RANGE = [-(2n ** 63n), 2n ** 63n - 1n];
+
+// ===== CONVERSION =====
+
+export function schemaFileName(name: string): string {
+  return `${name}.schema.json`;
+}
+
+/**
+ * Pattern matching standard base64 (with padding) of exactly `length` bytes. The last character before the padding
+ * can only take the values whose unused low bits are zero.
+ */
+export function base64LengthPattern(length: number): string {
+  const char = "[A-Za-z0-9+/]";
+  const full = Math.floor(length / 3);
+  const groups = full > 0 ? `${char}{${full * 4}}` : "";
+  switch (length % 3) {
+    case 1:
+      return `^${groups}${char}[AQgw]==$`;
+    case 2:
+      return `^${groups}${char}{2}[AEIMQUYcgkosw048]=$`;
+    default:
+      return `^${groups}$`;
+  }
+}
+
+function hasType(schema: Record<string, any>, type: string): boolean {
+  return schema.type === type || (Array.isArray(schema.type) && schema.type.includes(type));
+}
+
+/**
+ * Rewrite one schema object of a component as JSON Schema 2020-12, in place
+ */
+function convertSchema(schema: Record<string, any>, schemaNames: Set<string>): void {
+  upgradeSchema(schema);
+  OPENAPI_ONLY_KEYWORDS.forEach((keyword) => delete schema[keyword]);
+
+  if (typeof schema.$ref === "string") {
+    const name = schema.$ref.startsWith(COMPONENT_REF) ? decodeURIComponent(schema.$ref.slice(COMPONENT_REF.length)) : undefined;
+    if (name === undefined || !schemaNames.has(name)) {
+      throw new Error(`Cannot export $ref ${schema.$ref}: only refs to component schemas can become files`);
+    }
+    schema.$ref = `./${encodeURIComponent(schemaFileName(name))}`;
+  }
+
+  if (schema.format === "byte") {
+    schema.contentEncoding = "base64";
+    delete schema.format;
+  } else if (schema.format === "binary") {
+    schema.contentMediaType = "application/octet-stream";
+    delete schema.format;
+  }
+
+  const byteLength = schema["x-algokit-byte-length"];
+  if (typeof byteLength === "number" && hasType(schema, "string")) {
+    const pattern = base64LengthPattern(byteLength);
+    if (schema.pattern === undefined || schema.pattern === BASE64_PATTERN) {
+      schema.pattern = pattern;
+    } else {
+      schema.allOf = [...(schema.allOf ?? []), { pattern }];
+    }
+    delete schema["x-algokit-byte-length"];
+  }
+
+  if (schema["x-algokit-bigint"] === true && hasType(schema, "integer")) {
+    const [minimum, maximum] = schema.format === "int64" ? INT64_RANGE : UINT64_RANGE;
+    schema.minimum ??= minimum;
+    schema.maximum ??= maximum;
+    delete schema["x-algokit-bigint"];
+  }
+}
+
+/**
+ * Convert the component schemas of a processed spec (OpenAPI 3.0 or 3.1) into standalone JSON Schema files
+ */
+export function buildSchemaBundle(spec: OpenAPISpec): SchemaBundle {
+  const schemas = structuredClone(spec.components?.schemas ?? {});
+  const schemaNames = new Set(Object.keys(schemas));
+  forEachSchemaObject({ components: { schemas } }, (schema) => convertSchema(schema, schemaNames));
+
+  const files = Object.entries<any>(schemas).map(([name, schema]) => {
+    const fileName = schemaFileName(name);
+    return { name, fileName, schema: { $schema: DIALECT, $id: fileName, title: name, ...schema } };
+  });
+
+  const title = [spec.info?.title, spec.info?.version].filter(Boolean).join(" ");
+  const index = {
+    $schema: DIALECT,
+    $id: INDEX_FILE,
+    title: `${title || "Spec"} schemas`,
+    description: "Every schema of the spec, by name. Refer to one as index.schema.json#/$defs/<Name>, or use its own file.",
+    $defs: Object.fromEntries(files.map(({ name, fileName }) => [name, { $ref: `./${encodeURIComponent(fileName)}` }])),
+  };
+  return { files, index: { name: "index", fileName: INDEX_FILE, schema: index } };
+}
+
+// ===== SERIALIZATION =====
+
+const BIGINT_MARKER = "@@bigint:";
+
+/**
+ * Serialize a schema file as indented JSON, writing bigint bounds as exact integer literals
+ */
+export function formatSchemaFile(schema: Record<string, any>, indent = 2): string {
+  const json = JSON.stringify(schema, (_key, value) => (typeof value === "bigint" ? `${BIGINT_MARKER}${value}` : value), indent);
+  return `${json.replace(new RegExp(`"${BIGINT_MARKER}(-?\\d+)"`, "g"), "$1")}\n`;
+}
@@ -0,0 +1,38 @@
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+
+// ===== TYPES =====
+
+export interface UpstreamLockEntry {
+  tag: string; // Upstream tag the spec was taken from, e.g. "v4.0.1-stable"
+  commit: string; // Commit SHA the tag resolved to
+  url: string; // Raw upstream document URL, pinned to the commit
+  sha256: string; // sha256 of the raw upstream document
+}
+
+// Lock entries keyed by spec name
+export type UpstreamLock = Record<string, UpstreamLockEntry>;
+
+// ===== LOCKFILE =====
+
+export function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Read the upstream lockfile, returning an empty lock when it does not exist yet
+ */
+export async function readLock(path: string): Promise<UpstreamLock> {
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new Error(`Failed to read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export async function writeLock(path: string, lock: UpstreamLock): Promise<void> {
+  const sorted = Object.fromEntries(Object.entries(lock).sort(([a], [b]) => a.localeCompare(b)));
+  await writeFile(path, `${JSON.stringify(sorted, null, 2)}\n`, "utf8");
+  console.log(`✅ Upstream lock saved to ${path}`);
+}
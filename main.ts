@@ -1,124 +1,522 @@
 #!/usr/bin/env node
 
-import { join } from "node:path";
-import { OpenAPIProcessor } from "./processor.js";
-import { ALGOD_CONFIG, KMD_CONFIG, INDEXER_CONFIG } from "./config.js";
-import type { ProcessingConfig } from "./types.js";
-
-// ===== SPEC DEFINITIONS =====
-
-interface SpecDefinition {
-  name: string;
-  cliFlag: string;
-  config: Omit<ProcessingConfig, "sourceUrl" | "outputPath">;
-  github: {
-    owner: string;
-    repo: string;
-    tagStrategy: "stable" | "latest-release";
-    pathTemplate: (tag: string) => string;
-  };
-  outputFile: string;
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { OpenAPIProcessor, PASSES } from "./processor.js";
+import { resolvePipeline } from "./pipeline.js";
+import { CONSISTENCY_CONFIG, SPECS } from "./config.js";
+import { DEFAULT_GITHUB_ENDPOINTS, fetchLatestTag, rawSpecUrl, resolveTagCommit, type GitHubOptions } from "./upstream.js";
+import { UpstreamCache } from "./cache.js";
+import { diffSpecs, renderDiffMarkdown, type SpecChange } from "./specDiff.js";
+import { loadSpecConfigFile } from "./configFile.js";
+import type { TransformAudit } from "./report.js";
+import { readLock, writeLock, type UpstreamLock, type UpstreamLockEntry } from "./lockfile.js";
+import { checkSpecNames, isUsageError, parseCli, renderHelp, type CliOptions } from "./cli.js";
+import { outputPaths } from "./output.js";
+import { validateOpenAPI31 } from "./openapi31.js";
+import { buildPassRegistry, loadPlugin, loadPlugins } from "./plugins.js";
+import { buildOverlay } from "./overlay.js";
+import { checkConsistency, renderConsistencyMarkdown } from "./consistency.js";
+import { buildSchemaBundle, formatSchemaFile } from "./jsonSchema.js";
+import type { ConsistencyAllowance, OpenAPISpec, ProcessingConfig, SpecDefinition } from "./types.js";
+
+// ===== SPEC SELECTION =====
+
+/**
+ * Add the specs defined by plugin modules to the registry. Each module is only registered once.
+ */
+async function registerPluginSpecs(specs: SpecDefinition[], paths: string[], registered: Set<string>): Promise<void> {
+  for (const path of paths.map((p) => resolve(p))) {
+    if (registered.has(path)) continue;
+    registered.add(path);
+
+    const plugin = await loadPlugin(path);
+    for (const spec of plugin.specs ?? []) {
+      if (specs.some((s) => s.name === spec.name)) {
+        throw new Error(`Plugin ${plugin.name} defines spec "${spec.name}", which is already registered`);
+      }
+      specs.push({ ...spec });
+      console.log(`ℹ️  Registered ${spec.name} spec from plugin ${plugin.name}`);
+    }
+  }
 }
 
-const SPECS: SpecDefinition[] = [
-  {
-    name: "algod",
-    cliFlag: "--algod-only",
-    config: ALGOD_CONFIG,
-    github: {
-      owner: "algorand",
-      repo: "go-algorand",
-      tagStrategy: "stable",
-      pathTemplate: (tag) => `https://raw.githubusercontent.com/algorand/go-algorand/${tag}/daemon/algod/api/algod.oas2.json`,
-    },
-    outputFile: "algod.oas3.json",
-  },
-  {
-    name: "kmd",
-    cliFlag: "--kmd-only",
-    config: KMD_CONFIG,
-    github: {
-      owner: "algorand",
-      repo: "go-algorand",
-      tagStrategy: "stable",
-      pathTemplate: (tag) => `https://raw.githubusercontent.com/algorand/go-algorand/${tag}/daemon/kmd/api/swagger.json`,
-    },
-    outputFile: "kmd.oas3.json",
-  },
-  {
-    name: "indexer",
-    cliFlag: "--indexer-only",
-    config: INDEXER_CONFIG,
+/**
+ * Build the spec registry: the built-in specs, specs from `--plugin` modules and from plugins referenced by
+ * config files, with every `--config <file>` replacing the config of the spec it targets
+ */
+async function resolveSpecs(options: CliOptions): Promise<SpecDefinition[]> {
+  const specs = SPECS.map((spec) => ({ ...spec }));
+  const registered = new Set<string>();
+  await registerPluginSpecs(specs, options.plugins, registered);
+
+  for (const file of options.configs) {
+    const loaded = await loadSpecConfigFile(file);
+    await registerPluginSpecs(specs, loaded.config.plugins ?? [], registered);
+    const spec = specs.find((s) => s.name === loaded.spec);
+    if (!spec) {
+      throw new Error(`${file}: unknown spec "${loaded.spec}" (expected one of ${specs.map((s) => s.name).join(", ")})`);
+    }
+    spec.config = loaded.config;
+    console.log(`ℹ️  Loaded ${spec.name} config from ${loaded.files.join(" → ")}`);
+  }
+
+  checkSpecNames(options, specs);
+  return specs;
+}
+
+/**
+ * Specs chosen with `--spec` or the `--<spec>-only` flags, defaulting to every spec
+ */
+function selectSpecs(specs: SpecDefinition[], options: CliOptions): SpecDefinition[] {
+  return options.specs.length > 0 ? specs.filter((spec) => options.specs.includes(spec.name)) : specs;
+}
+
+// ===== UPSTREAM LOCK =====
+
+const LOCK_PATH = join(process.cwd(), "specs", "upstream.lock.json");
+const DEFAULT_CACHE_DIR = join(process.cwd(), ".cache", "upstream");
+
+interface UpstreamOptions {
+  lock: UpstreamLock;
+  pins: Map<string, string>; // Spec name → tag from `--tag name=tag`
+  update: boolean; // Re-resolve every selected spec instead of reproducing from the lock
+  github: Required<GitHubOptions>; // GitHub endpoints and the upstream cache
+}
+
+// A source resolved from GitHub has no sha256 until the document is fetched
+type UpstreamSource = Omit<UpstreamLockEntry, "sha256"> & { sha256?: string };
+
+function upstreamOptions(options: CliOptions, lock: UpstreamLock, update: boolean): UpstreamOptions {
+  if (options.offline && update) {
+    throw new Error("update needs network access and cannot be combined with --offline");
+  }
+  return {
+    lock,
+    pins: options.tags,
+    update,
     github: {
-      owner: "algorand",
-      repo: "indexer",
-      tagStrategy: "latest-release",
-      pathTemplate: (tag) => `https://raw.githubusercontent.com/algorand/indexer/${tag}/api/indexer.oas2.json`,
+      endpoints: {
+        apiBaseUrl: options.githubApiUrl ?? DEFAULT_GITHUB_ENDPOINTS.apiBaseUrl,
+        rawBaseUrl: options.githubRawUrl ?? DEFAULT_GITHUB_ENDPOINTS.rawBaseUrl,
+      },
+      cache: new UpstreamCache(options.cacheDir ?? DEFAULT_CACHE_DIR, options.offline),
     },
-    outputFile: "indexer.oas3.json",
-  },
-];
-
-// ===== TAG FETCHING =====
+  };
+}
 
-async function fetchLatestTag(owner: string, repo: string, strategy: "stable" | "latest-release"): Promise<string> {
-  console.log(`ℹ️  Fetching latest ${strategy} tag for ${owner}/${repo}...`);
+/**
+ * Reproduce a spec's source from the lock, or resolve it from GitHub when updating or pinning. A spec missing from
+ * the lock fails the run rather than resolving whatever tag is latest, so every run is reproducible.
+ */
+async function resolveSource(spec: SpecDefinition, upstream: UpstreamOptions): Promise<UpstreamSource> {
+  const locked = upstream.lock[spec.name];
+  const pinned = upstream.pins.get(spec.name);
 
-  try {
-    if (strategy === "stable") {
-      const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/tags`);
-      if (!response.ok) {
-        throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`);
-      }
-      const tags = await response.json();
-      const stableTag = tags.find((tag: any) => tag.name.includes("-stable"));
-      if (!stableTag) {
-        throw new Error("No stable tag found in the repository");
-      }
-      console.log(`✅ Found latest stable tag: ${stableTag.name}`);
-      return stableTag.name;
-    } else {
-      const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/releases/latest`);
-      if (!response.ok) {
-        throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`);
-      }
-      const release = await response.json();
-      console.log(`✅ Found latest release tag: ${release.tag_name}`);
-      return release.tag_name;
-    }
-  } catch (error) {
-    console.error(`❌ Failed to fetch tag, falling back to master branch`);
-    console.error(error instanceof Error ? error.message : error);
-    return "master";
+  if (locked && !upstream.update && (!pinned || pinned === locked.tag)) {
+    console.log(`ℹ️  Using locked ${spec.name} source ${locked.tag} (${locked.commit})`);
+    return locked;
+  }
+  if (!locked && !upstream.update && !pinned) {
+    throw new Error(
+      `No ${spec.name} entry in ${LOCK_PATH}. Run \`npm run update-specs -- --spec ${spec.name}\` or pass --tag ${spec.name}=<tag> to lock it.`,
+    );
   }
+
+  const { owner, repo, tagStrategy } = spec.github;
+  const tag = pinned ?? (await fetchLatestTag(owner, repo, tagStrategy, upstream.github));
+  const commit = await resolveTagCommit(owner, repo, tag, upstream.github);
+  return { tag, commit, url: rawSpecUrl(spec, commit) };
 }
 
 // ===== SPEC PROCESSING =====
 
-async function processSpec(spec: SpecDefinition): Promise<void> {
-  const tag = await fetchLatestTag(spec.github.owner, spec.github.repo, spec.github.tagStrategy);
+/**
+ * Build the processing config for a spec. `--source` replaces the upstream source (and bypasses the lock);
+ * otherwise the lock records the canonical GitHub URL and the document is fetched from the configured raw host.
+ */
+async function resolveConfig(
+  spec: SpecDefinition,
+  options: CliOptions,
+  upstream: UpstreamOptions,
+): Promise<{ config: ProcessingConfig; source?: UpstreamSource }> {
+  const override = options.sources.get(spec.name);
+  const source = override ? undefined : await resolveSource(spec, upstream);
+  const outputDir = resolve(options.outputDir);
+
   const config: ProcessingConfig = {
     ...spec.config,
-    sourceUrl: spec.github.pathTemplate(tag),
-    outputPath: join(process.cwd(), "specs", spec.outputFile),
+    ...(options.converter && { converter: options.converter }),
+    ...(options.indent !== undefined && { indent: options.indent }),
+    ...(options.formats && { outputFormats: options.formats }),
+    ...(options.models && { models: { ...spec.config.models, format: options.models } }),
+    sourceUrl: override ?? rawSpecUrl(spec, source!.commit, upstream.github.endpoints),
+    sourceSha256: source?.sha256,
+    cacheDir: upstream.github.cache.dir,
+    offline: upstream.github.cache.offline,
+    outputPath: join(outputDir, spec.outputFile),
+    reportPath: join(outputDir, `${spec.name}.report.json`),
   };
-  await new OpenAPIProcessor(config).process();
+  return { config, source };
+}
+
+/**
+ * Print what a run would write, without writing anything
+ */
+async function printDryRun(spec: SpecDefinition, config: ProcessingConfig, processor: OpenAPIProcessor, generated: OpenAPISpec) {
+  for (const { format, path } of processor.outputs()) {
+    const existing = await readFile(path, "utf8").catch(() => undefined);
+    const status =
+      existing === undefined ? "would create" : existing === processor.formatSpec(generated, format) ? "unchanged" : "would update";
+    console.log(`📄 ${spec.name}: ${status} ${path}`);
+  }
+  const modelsPath = processor.modelsPath();
+  if (modelsPath) {
+    const existing = await readFile(modelsPath, "utf8").catch(() => undefined);
+    const status =
+      existing === undefined ? "would create" : existing === processor.renderModels(generated).content ? "unchanged" : "would update";
+    console.log(`📄 ${spec.name}: ${status} ${modelsPath}`);
+  }
+
+  const { passes, rules, fallbacks, bigIntCandidates } = processor.audit.toJSON();
+  const changes = passes.reduce((sum, pass) => sum + pass.changes.length, 0);
+  const stale = rules.filter((rule) => rule.matches === 0).length;
+
+  console.log(`   ${Object.keys(generated.paths ?? {}).length} paths, ${Object.keys(generated.components?.schemas ?? {}).length} schemas`);
+  console.log(`   ${passes.length} passes changed ${changes} values; ${stale} of ${rules.length} config rules matched nothing`);
+  if (fallbacks.length > 0) {
+    console.log(`   generated ${fallbacks.length} missing required values, listed in the report`);
+  }
+  const unmarked = bigIntCandidates.filter((candidate) => !candidate.marked).length;
+  if (unmarked > 0) {
+    console.log(`   ${unmarked} integer fields look 64-bit but are not marked x-algokit-bigint, listed in the report`);
+  }
+  console.log(`   would write report ${config.reportPath}`);
+}
+
+async function processSpec(spec: SpecDefinition, options: CliOptions, upstream: UpstreamOptions): Promise<TransformAudit> {
+  const { config, source } = await resolveConfig(spec, options, upstream);
+  const processor = new OpenAPIProcessor(config);
+
+  if (options.dryRun) {
+    await printDryRun(spec, config, processor, await processor.generate());
+  } else {
+    await mkdir(resolve(options.outputDir), { recursive: true });
+    await processor.process();
+  }
+
+  if (source) {
+    upstream.lock[spec.name] = { ...source, sha256: processor.sourceSha256! };
+  }
+  return processor.audit;
+}
+
+// ===== STALE RULES =====
+
+/**
+ * Fail when a config rule matched nothing
+ */
+function checkStaleRules(audits: Map<string, TransformAudit>): void {
+  const stale: string[] = [];
+
+  for (const [name, audit] of audits) {
+    for (const rule of audit.toJSON().rules) {
+      if (rule.matches === 0) {
+        stale.push(`${name}: ${rule.group} rule ${rule.rule}`);
+      }
+    }
+  }
+
+  if (stale.length > 0) {
+    stale.forEach((entry) => console.error(`❌ Stale rule in ${entry} matched nothing`));
+    throw new Error(`${stale.length} config rules matched nothing (--strict)`);
+  }
+  console.log("✅ Every config rule matched at least once");
+}
+
+// ===== DIFF =====
+
+async function readSpec(path: string): Promise<OpenAPISpec> {
+  const content = await readFile(path, "utf8");
+  return /\.ya?ml$/.test(path) ? parseYaml(content) : JSON.parse(content);
+}
+
+/**
+ * The first output file configured for a spec in the output directory; diff and validate read this one
+ */
+function primaryOutput(spec: SpecDefinition, options: CliOptions): string {
+  return outputPaths(join(options.outputDir, spec.outputFile), options.formats ?? spec.config.outputFormats)[0].path;
+}
+
+/**
+ * `diff <base> <head>` compares two spec files; `diff` compares freshly processed specs with the ones in the
+ * output directory. `--output <file>` also writes the Markdown report to a file. Returns whether any change is breaking.
+ */
+async function runDiff(specs: SpecDefinition[], options: CliOptions): Promise<boolean> {
+  const sections: { title: string; changes: SpecChange[] }[] = [];
+
+  if (options.files.length === 2) {
+    const [basePath, headPath] = options.files;
+    sections.push({ title: `${basePath} → ${headPath}`, changes: diffSpecs(await readSpec(basePath), await readSpec(headPath)) });
+  } else if (options.files.length === 0) {
+    const upstream = upstreamOptions(options, await readLock(LOCK_PATH), false);
+    for (const spec of selectSpecs(specs, options)) {
+      const { config } = await resolveConfig(spec, options, upstream);
+      const committed = await readSpec(primaryOutput(spec, options));
+      const generated = await new OpenAPIProcessor(config).generate();
+      sections.push({ title: `${spec.name} API changes`, changes: diffSpecs(committed, generated) });
+    }
+  } else {
+    throw new Error("Usage: diff <base-spec> <head-spec> | diff [--spec <names>] [--output <file>]");
+  }
+
+  const markdown = sections.map(({ title, changes }) => renderDiffMarkdown(title, changes)).join("\n");
+  console.log(markdown);
+  if (options.output) {
+    await writeFile(options.output, markdown, "utf8");
+  }
+
+  return sections.some(({ changes }) => changes.some((change) => change.breaking));
+}
+
+// ===== CONSISTENCY =====
+
+/**
+ * Compare the schemas shared by the selected specs in the output directory (default all). `--output <file>` also
+ * writes the Markdown report to a file. Returns whether any difference is not covered by CONSISTENCY_CONFIG.allow.
+ */
+async function runConsistency(specs: SpecDefinition[], options: CliOptions): Promise<boolean> {
+  const selected = selectSpecs(specs, options);
+  if (selected.length < 2) {
+    throw new Error("consistency needs at least two specs, select them with --spec");
+  }
+
+  const named = await Promise.all(selected.map(async (spec) => ({ name: spec.name, spec: await readSpec(primaryOutput(spec, options)) })));
+  const matches = new Map<ConsistencyAllowance, number>();
+  const inconsistencies = checkConsistency(named, CONSISTENCY_CONFIG, matches);
+  for (const allowance of CONSISTENCY_CONFIG.allow ?? []) {
+    if (!matches.has(allowance)) {
+      console.warn(`⚠️  consistency allowance ${allowance.schema}${allowance.field ? `.${allowance.field}` : ""} matched nothing`);
+    }
+  }
+
+  const markdown = renderConsistencyMarkdown(inconsistencies);
+  console.log(markdown);
+  if (options.output) {
+    await writeFile(options.output, markdown, "utf8");
+  }
+
+  return inconsistencies.some((inconsistency) => !inconsistency.allowed);
+}
+
+// ===== EXPORT OVERLAY =====
+
+/**
+ * Write, per selected spec, an overlay that turns the converted OpenAPI 3.0 document into the generated spec, so the
+ * output can be reproduced without this tool. Written to `<output-dir>/<spec>.overlay.yaml`, or `--output` for one spec.
+ */
+async function runExportOverlay(specs: SpecDefinition[], options: CliOptions): Promise<void> {
+  const selected = selectSpecs(specs, options);
+  if (options.output && selected.length !== 1) {
+    throw new Error("export-overlay --output needs exactly one spec, select it with --spec");
+  }
+
+  const upstream = upstreamOptions(options, await readLock(LOCK_PATH), false);
+  for (const spec of selected) {
+    const { config } = await resolveConfig(spec, options, upstream);
+    const processor = new OpenAPIProcessor(config);
+    const generated = await processor.generate();
+
+    if (processor.sourcePasses.length > 0) {
+      console.warn(`⚠️  ${spec.name}: changes made before conversion (${processor.sourcePasses.join(", ")}) are not part of the overlay`);
+    }
+
+    const overlay = buildOverlay(processor.convertedSpec!, generated, {
+      title: `${spec.name} transformations`,
+      version: generated.info?.version ?? "0.0.0",
+      description: `Net effect of the ${spec.name} config rules on the OpenAPI 3.0 document converted from ${config.sourceUrl}`,
+    });
+    const path = options.output ?? join(options.outputDir, `${spec.name}.overlay.yaml`);
+    await mkdir(dirname(resolve(path)), { recursive: true });
+    await writeFile(
+      path,
+      /\.json$/.test(path) ? `${JSON.stringify(overlay, null, 2)}\n` : stringifyYaml(overlay, { lineWidth: 0 }),
+      "utf8",
+    );
+    console.log(`✅ ${spec.name}: wrote ${overlay.actions.length} overlay actions to ${path}`);
+  }
+}
+
+// ===== EXPORT SCHEMAS =====
+
+/**
+ * Write each component schema of the selected specs in the output directory as a standalone JSON Schema 2020-12 file,
+ * plus an index, to `<output-dir>/<spec>.schemas/`, or to the `--output` directory for one spec
+ */
+async function runExportSchemas(specs: SpecDefinition[], options: CliOptions): Promise<void> {
+  const selected = selectSpecs(specs, options);
+  if (options.output && selected.length !== 1) {
+    throw new Error("export-schemas --output needs exactly one spec, select it with --spec");
+  }
+
+  for (const spec of selected) {
+    const bundle = buildSchemaBundle(await readSpec(primaryOutput(spec, options)));
+    const dir = options.output ?? join(options.outputDir, `${spec.name}.schemas`);
+    await mkdir(dir, { recursive: true });
+
+    const written = new Set<string>();
+    for (const { fileName, schema } of [...bundle.files, bundle.index]) {
+      await writeFile(join(dir, fileName), formatSchemaFile(schema), "utf8");
+      written.add(fileName);
+    }
+    const stale = (await readdir(dir)).filter((file) => file.endsWith(".schema.json") && !written.has(file));
+    if (stale.length > 0) {
+      console.warn(`⚠️  ${spec.name}: ${dir} also holds schema files that are no longer exported: ${stale.join(", ")}`);
+    }
+    console.log(`✅ ${spec.name}: wrote ${bundle.files.length} JSON Schema files and an index to ${dir}`);
+  }
+}
+
+// ===== VALIDATE / LIST =====
+
+/**
+ * Validate the given files, or the selected specs in the output directory. Returns whether all are valid.
+ */
+async function runValidate(specs: SpecDefinition[], options: CliOptions): Promise<boolean> {
+  const files = options.files.length > 0 ? options.files : selectSpecs(specs, options).map((spec) => primaryOutput(spec, options));
+
+  let valid = true;
+  for (const file of files) {
+    try {
+      const spec = await readSpec(file);
+      if (spec.openapi?.startsWith("3.1")) {
+        const problems = validateOpenAPI31(spec);
+        if (problems.length > 0) throw new Error(problems.join("\n"));
+      } else {
+        await SwaggerParser.validate(file);
+      }
+      console.log(`✅ ${file} is valid`);
+    } catch (error) {
+      valid = false;
+      console.error(`❌ ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return valid;
+}
+
+/**
+ * Print each spec's effective pass order, marking passes with nothing configured for the spec
+ */
+async function listPasses(specs: SpecDefinition[]): Promise<void> {
+  for (const spec of specs) {
+    const passes = buildPassRegistry(PASSES, await loadPlugins(spec.config.plugins ?? []));
+    const pipeline = resolvePipeline(passes.pipeline, spec.config);
+    console.log(`${spec.name} pipeline:`);
+    [...passes.source, ...pipeline].forEach((pass, i) => {
+      const stage = passes.source.includes(pass) ? " (source stage)" : "";
+      const skipped = pass.applies && !pass.applies(spec.config) ? " (skipped: not configured)" : "";
+      console.log(`  ${String(i + 1).padStart(2)}. ${pass.name.padEnd(30)}${pass.description}${stage}${skipped}`);
+    });
+    const disabled = passes.pipeline.filter((pass) => !pipeline.includes(pass)).map((pass) => pass.name);
+    if (disabled.length > 0) {
+      console.log(`  disabled: ${disabled.join(", ")}`);
+    }
+  }
+}
+
+async function listSpecs(specs: SpecDefinition[]): Promise<void> {
+  const lock = await readLock(LOCK_PATH);
+  for (const spec of specs) {
+    const { owner, repo, path, tagStrategy } = spec.github;
+    const locked = lock[spec.name];
+    const outputs = outputPaths(spec.outputFile, spec.config.outputFormats).map(({ path }) => path);
+    console.log(`${spec.name.padEnd(10)}${spec.cliFlag.padEnd(16)}${outputs.join(", ")}`);
+    console.log(`  source: ${owner}/${repo}:${path} (${tagStrategy})`);
+    console.log(`  locked: ${locked ? `${locked.tag} (${locked.commit})` : "no"}`);
+  }
 }
 
 // ===== CLI =====
 
+/**
+ * Parse the command line, or exit with the problem and the usage when it cannot be parsed
+ */
+function parseCommandLine(): CliOptions {
+  try {
+    return parseCli(process.argv.slice(2));
+  } catch (error) {
+    if (!isUsageError(error)) throw error;
+    console.error(`❌ ${(error as Error).message}\n`);
+    process.stderr.write(renderHelp());
+    process.exit(1);
+  }
+}
+
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  const options = parseCommandLine();
+  const specs = await resolveSpecs(options);
 
-  // Check for single-spec flags
-  const selectedSpec = SPECS.find((spec) => args.includes(spec.cliFlag));
-  if (selectedSpec) {
-    await processSpec(selectedSpec);
+  if (options.command === "help") {
+    process.stdout.write(renderHelp(specs));
     return;
   }
 
-  // Process all specs in parallel
-  await Promise.all(SPECS.map(processSpec));
+  if (options.listPasses) {
+    await listPasses(selectSpecs(specs, options));
+    return;
+  }
+
+  if (options.command === "list-specs") {
+    await listSpecs(selectSpecs(specs, options));
+    return;
+  }
+
+  if (options.command === "validate") {
+    if (!(await runValidate(specs, options))) process.exit(1);
+    return;
+  }
+
+  if (options.command === "consistency") {
+    if (await runConsistency(specs, options)) process.exit(1);
+    return;
+  }
+
+  if (options.command === "export-overlay") {
+    await runExportOverlay(specs, options);
+    return;
+  }
+
+  if (options.command === "export-schemas") {
+    await runExportSchemas(specs, options);
+    return;
+  }
+
+  if (options.command === "diff") {
+    const breaking = await runDiff(specs, options);
+    if (breaking) process.exit(1);
+    return;
+  }
+
+  // `update` refreshes the upstream lock from the latest tags; `generate` reproduces the locked sources
+  const lock = await readLock(LOCK_PATH);
+  const upstream = upstreamOptions(options, structuredClone(lock), options.command === "update");
+
+  const selected = selectSpecs(specs, options);
+  const audits = await Promise.all(selected.map((spec) => processSpec(spec, options, upstream)));
+
+  if (JSON.stringify(upstream.lock) !== JSON.stringify(lock)) {
+    if (options.dryRun) {
+      console.log(`ℹ️  Dry run: would update ${LOCK_PATH}`);
+    } else {
+      await writeLock(LOCK_PATH, upstream.lock);
+    }
+  }
+
+  if (options.strict) {
+    checkStaleRules(new Map(selected.map((spec, i) => [spec.name, audits[i]])));
+  }
 }
 
 main().catch((error) => {
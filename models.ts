@@ -0,0 +1,257 @@
+import { formatFieldPath } from "./fields.js";
+import type { ModelFormat, ModelOutput, OpenAPISpec } from "./types.js";
+
+// TypeScript models rendered from the processed spec, one type per component schema. This is the reference meaning of
+// the x-algokit extensions for generated code:
+//   x-algokit-bigint             integer → bigint
+//   format: byte / binary        string → Uint8Array (base64 on the JSON wire)
+//   x-algokit-byte-length        Uint8Array of exactly that many bytes, noted in the field's doc comment
+//   x-algokit-signed-txn         SignedTransaction
+//   x-algorand-format: Address   Address
+//   x-algokit-field-rename       the field's generated name; the wire name goes in the WireNames table
+// Fields are optional unless the processed `required` array lists them.
+
+// ===== TYPES =====
+
+export interface RenderedModels {
+  content: string;
+  models: number; // Component schemas rendered
+  renamed: number; // Fields in the wire-name table
+}
+
+// Types the extensions map to that are not component schemas, with the alias declared when models.imports has none
+const EXTERNAL_TYPES: Record<string, { type: string; description: string }> = {
+  Address: { type: "string", description: "An Algorand address in its 58-character base32 form (x-algorand-format: Address)" },
+  SignedTransaction: { type: "Record<string, unknown>", description: "A signed transaction (x-algokit-signed-txn)" },
+};
+
+const WIRE_NAMES_TYPE = "WireNames";
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// ===== PATHS =====
+
+/**
+ * Path the models of a spec are written to, next to its output (e.g. algod.oas3.json → algod.models.d.ts)
+ */
+export function modelPathFor(outputPath: string, format: ModelFormat = "d.ts"): string {
+  return `${outputPath.replace(/(\.oas3)?(\.min)?\.(json|ya?ml)$/, "")}.models.${format}`;
+}
+
+// ===== RENDERING =====
+
+interface RenderState {
+  names: Map<string, string>; // Component schema name → type name
+  used: Set<string>; // External types referenced
+  wireNames: Map<string, [string, string][]>; // Type name → [generated field path, wire name]
+}
+
+function typeName(schemaName: string): string {
+  const name = schemaName.replace(/[^\w$]/g, "_");
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * JSDoc block for a description and extra notes, indented to `indent`; empty when there is nothing to say
+ */
+function docComment(indent: string, description: unknown, notes: string[] = []): string {
+  const text = typeof description === "string" ? description.trim() : "";
+  const lines = [...(text ? text.split("\n") : []), ...notes].map((line) => line.trimEnd().replaceAll("*/", "*\\/"));
+  if (lines.length === 0) return "";
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} *${line && ` ${line}`}`).join("\n")}\n${indent} */\n`;
+}
+
+/**
+ * Array of `type`, written as Array<...> when `type` has a union or intersection that `[]` would bind to wrongly
+ */
+function arrayOf(type: string): string {
+  return /[|&]/.test(type) ? `Array<${type}>` : `${type}[]`;
+}
+
+function union(types: string[]): string {
+  return [...new Set(types)].join(" | ");
+}
+
+/**
+ * TypeScript type of one JSON type of a schema
+ */
+function jsonType(schema: any, type: string | undefined, state: RenderState, indent: string, path: string[]): string {
+  switch (type) {
+    case "integer":
+    case "number":
+      return schema["x-algokit-bigint"] ? "bigint" : "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "string":
+      if (schema.format === "byte" || schema.format === "binary") return "Uint8Array";
+      if (schema["x-algorand-format"] === "Address") {
+        state.used.add("Address");
+        return "Address";
+      }
+      return "string";
+    case "array":
+      return arrayOf(schemaType(schema.items ?? {}, state, indent, [...path, "[]"]));
+    case "object":
+      return objectType(schema, state, indent, path);
+    default:
+      if (schema.properties || schema.additionalProperties !== undefined) return objectType(schema, state, indent, path);
+      if (schema.items) return jsonType(schema, "array", state, indent, path);
+      return "unknown";
+  }
+}
+
+/**
+ * TypeScript type of a schema. `path` is the generated field path of the schema within its model, for the wire-name
+ * table; `indent` is the indentation of the line the type starts on.
+ */
+function schemaType(schema: any, state: RenderState, indent: string, path: string[]): string {
+  if (!schema || typeof schema !== "object") return "unknown";
+  if (schema.$ref) {
+    const name = state.names.get(String(schema.$ref).replace("#/components/schemas/", ""));
+    return name ?? "unknown";
+  }
+  if (schema["x-algokit-signed-txn"]) {
+    state.used.add("SignedTransaction");
+    return "SignedTransaction";
+  }
+  if (schema.allOf) {
+    return schema.allOf.map((member: any) => schemaType(member, state, indent, path)).join(" & ");
+  }
+  if (schema.oneOf || schema.anyOf) {
+    return union((schema.oneOf ?? schema.anyOf).map((member: any) => schemaType(member, state, indent, path)));
+  }
+  if ("const" in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return union(schema.enum.map((value: unknown) => JSON.stringify(value)));
+
+  const types: (string | undefined)[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const rendered = types.map((type) => jsonType(schema, type, state, indent, path));
+  if (schema.nullable === true) rendered.push("null");
+  return union(rendered);
+}
+
+/**
+ * Object literal type of a schema's properties, or a Record for additionalProperties
+ */
+function objectType(schema: any, state: RenderState, indent: string, path: string[]): string {
+  const properties = Object.entries<any>(schema.properties ?? {});
+  if (properties.length === 0) {
+    const values = schema.additionalProperties;
+    const type = values && typeof values === "object" ? schemaType(values, state, indent, [...path, "{}"]) : "unknown";
+    return `Record<string, ${type}>`;
+  }
+  return `{\n${renderProperties(schema, state, `${indent}  `, path)}${indent}}`;
+}
+
+/**
+ * One line (plus doc comment) per property, with renamed fields recorded in the wire-name table
+ */
+function renderProperties(schema: any, state: RenderState, indent: string, path: string[]): string {
+  const required = new Set<string>(schema.required ?? []);
+  return Object.entries<any>(schema.properties ?? {})
+    .map(([wireName, property]) => {
+      const rename = property?.["x-algokit-field-rename"];
+      const name = typeof rename === "string" ? rename : wireName;
+      const fieldPath = [...path, name];
+      if (name !== wireName) {
+        const [model, ...segments] = fieldPath;
+        const entries = state.wireNames.get(model) ?? [];
+        state.wireNames.set(model, [...entries, [formatFieldPath(segments), wireName]]);
+      }
+
+      const notes = [
+        ...(name !== wireName ? [`Wire name: \`${wireName}\``] : []),
+        ...(typeof property?.["x-algokit-byte-length"] === "number" ? [`Exactly ${property["x-algokit-byte-length"]} bytes.`] : []),
+      ];
+      const optional = required.has(wireName) ? "" : "?";
+      const type = schemaType(property, state, indent, fieldPath);
+      return `${docComment(indent, property?.description, notes)}${indent}${propertyKey(name)}${optional}: ${type};\n`;
+    })
+    .join("");
+}
+
+/**
+ * Declaration of one component schema: an interface for objects with properties, a type alias otherwise
+ */
+function renderModel(schemaName: string, schema: any, state: RenderState): string {
+  const name = state.names.get(schemaName)!;
+  const doc = docComment("", schema?.description);
+  const isInterface =
+    schema &&
+    !schema.$ref &&
+    !schema.allOf &&
+    !schema.oneOf &&
+    !schema.anyOf &&
+    !schema.nullable &&
+    Object.keys(schema.properties ?? {}).length > 0;
+  if (isInterface) {
+    return `${doc}export interface ${name} {\n${renderProperties(schema, state, "  ", [name])}}\n`;
+  }
+  return `${doc}export type ${name} = ${schemaType(schema, state, "", [name])};\n`;
+}
+
+/**
+ * Type (and, for "ts", value) of the wire-name table: generated field path → wire name, per model with renamed fields
+ */
+function renderWireNames(state: RenderState, format: ModelFormat): string {
+  const table = (separator: ";" | ",") => {
+    if (state.wireNames.size === 0) return "{}";
+    const models = [...state.wireNames].map(([model, fields]) => {
+      const entries = fields.map(([path, wireName]) => `    ${propertyKey(path)}: ${JSON.stringify(wireName)}${separator}`);
+      return `  ${model}: {\n${entries.join("\n")}\n  }${separator}`;
+    });
+    return `{\n${models.join("\n")}\n}`;
+  };
+
+  const doc = docComment("", "Wire names of renamed fields, by model and generated field path (`[]` for array items, `{}` for map values)");
+  const value = format === "ts" ? `\nexport const WIRE_NAMES: ${WIRE_NAMES_TYPE} = ${table(",")};\n` : "";
+  return `${doc}export interface ${WIRE_NAMES_TYPE} ${table(";")}\n${value}`;
+}
+
+/**
+ * Render the component schemas of a processed spec as TypeScript models
+ */
+export function renderModels(spec: OpenAPISpec, output: ModelOutput = {}): RenderedModels {
+  const { format = "d.ts", imports = {} } = output;
+  const schemas = spec.components?.schemas ?? {};
+
+  const names = new Map<string, string>();
+  const reserved = new Set([...Object.keys(EXTERNAL_TYPES), WIRE_NAMES_TYPE]);
+  for (const schemaName of Object.keys(schemas)) {
+    const name = typeName(schemaName);
+    if (reserved.has(name) || [...names.values()].includes(name)) {
+      throw new Error(`Schema "${schemaName}" would be rendered as ${name}, which is already taken`);
+    }
+    names.set(schemaName, name);
+  }
+  for (const name of Object.keys(imports)) {
+    if (!(name in EXTERNAL_TYPES)) {
+      throw new Error(`models.imports: unknown type "${name}" (expected ${Object.keys(EXTERNAL_TYPES).join(" or ")})`);
+    }
+  }
+
+  const state: RenderState = { names, used: new Set(), wireNames: new Map() };
+  const models = Object.entries(schemas).map(([schemaName, schema]) => renderModel(schemaName, schema, state));
+
+  const external = Object.keys(EXTERNAL_TYPES).filter((name) => state.used.has(name));
+  const title = [spec.info?.title ?? "the processed spec", spec.info?.version].filter(Boolean).join(" ");
+  const header = `// Models generated from ${title}\n// Do not edit: change the spec config and regenerate.\n`;
+  const importLines = external
+    .filter((name) => imports[name])
+    .map((name) => `import type { ${name} } from ${JSON.stringify(imports[name])};\n`);
+  const aliases = external
+    .filter((name) => !imports[name])
+    .map((name) => `${docComment("", EXTERNAL_TYPES[name].description)}export type ${name} = ${EXTERNAL_TYPES[name].type};\n`);
+
+  const sections = [header, importLines.join(""), ...aliases, ...models, renderWireNames(state, format)];
+  return {
+    content: sections.filter(Boolean).join("\n"),
+    models: models.length,
+    renamed: [...state.wireNames.values()].reduce((sum, fields) => sum + fields.length, 0),
+  };
+}
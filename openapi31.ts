@@ -0,0 +1,151 @@
+import { Ajv2020, type ErrorObject } from "ajv/dist/2020.js";
+import { openapiV31 } from "@apidevtools/openapi-schemas";
+import { deepTraverse, forEachSchemaObject, resolveRef } from "./traversal.js";
+import { toPointer } from "./jsonDiff.js";
+import type { OpenAPISpec } from "./types.js";
+
+// ===== UPGRADE =====
+
+const OPENAPI_31_VERSION = "3.1.0";
+
+// Keywords that describe a schema rather than constrain it
+function isAnnotation(key: string): boolean {
+  return key === "description" || key === "title" || key.startsWith("x-");
+}
+
+/**
+ * Rewrite one OpenAPI 3.0 schema object with JSON Schema 2020-12 semantics, in place. Returns the number of changes.
+ */
+export function upgradeSchema(schema: Record<string, any>): number {
+  let changes = 0;
+
+  // allOf wrapping a lone $ref only existed because 3.0 ignores $ref siblings. Unwrapped first, so that a nullable
+  // one becomes a null alternative below.
+  if (Array.isArray(schema.allOf) && schema.allOf.length === 1 && !schema.$ref) {
+    const [item] = schema.allOf;
+    if (item && typeof item === "object" && Object.keys(item).length === 1 && typeof item.$ref === "string") {
+      schema.$ref = item.$ref;
+      delete schema.allOf;
+      changes++;
+    }
+  }
+
+  // nullable: true → "null" in the type list, or a null alternative for $refs and schemas without a type (such as a
+  // bare allOf). The annotations of a wrapped schema (description, title and extensions) stay on the outside.
+  if ("nullable" in schema) {
+    const nullable = schema.nullable === true;
+    delete schema.nullable;
+    if (nullable) {
+      if (typeof schema.type === "string") {
+        schema.type = [schema.type, "null"];
+      } else if (Array.isArray(schema.type)) {
+        if (!schema.type.includes("null")) schema.type.push("null");
+      } else if (schema.$ref) {
+        schema.anyOf = [{ $ref: schema.$ref }, { type: "null" }];
+        delete schema.$ref;
+      } else {
+        const inner = Object.fromEntries(Object.entries(schema).filter(([key]) => !isAnnotation(key)));
+        Object.keys(inner).forEach((key) => delete schema[key]);
+        schema.anyOf = [inner, { type: "null" }];
+      }
+      if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+        schema.enum.push(null);
+      }
+    }
+    changes++;
+  }
+
+  // Boolean exclusiveMaximum/exclusiveMinimum → the numeric bound itself
+  for (const [exclusive, bound] of [
+    ["exclusiveMaximum", "maximum"],
+    ["exclusiveMinimum", "minimum"],
+  ]) {
+    if (typeof schema[exclusive] !== "boolean") continue;
+    if (schema[exclusive] && typeof schema[bound] === "number") {
+      schema[exclusive] = schema[bound];
+      delete schema[bound];
+    } else {
+      delete schema[exclusive];
+    }
+    changes++;
+  }
+
+  // example → examples
+  if ("example" in schema) {
+    schema.examples = [schema.example];
+    delete schema.example;
+    changes++;
+  }
+
+  // A single allowed value → const
+  if (Array.isArray(schema.enum) && schema.enum.length === 1) {
+    schema.const = schema.enum[0];
+    delete schema.enum;
+    changes++;
+  }
+
+  return changes;
+}
+
+/**
+ * Upgrade a processed OpenAPI 3.0 document to OpenAPI 3.1, in place. Only schema keywords whose meaning changed
+ * are rewritten; vendor extensions such as x-algokit-* are left untouched. Returns the number of changes.
+ */
+export function upgradeToOpenAPI31(spec: OpenAPISpec): number {
+  let changes = 0;
+  if (spec.openapi !== OPENAPI_31_VERSION) {
+    spec.openapi = OPENAPI_31_VERSION;
+    changes++;
+  }
+  forEachSchemaObject(spec, (schema) => (changes += upgradeSchema(schema)));
+  return changes;
+}
+
+// ===== VALIDATION =====
+
+let validator: ReturnType<Ajv2020["compile"]> | undefined;
+
+/**
+ * Compile the official OpenAPI 3.1 schema. Ajv cannot follow its `$dynamicRef: "#meta"` schema hooks, so they are
+ * pointed at the JSON Schema 2020-12 meta-schema directly, which still checks every schema object in full.
+ */
+function getValidator(): ReturnType<Ajv2020["compile"]> {
+  if (!validator) {
+    const schema = structuredClone(openapiV31) as Record<string, any>;
+    schema.$defs.schema = { $ref: "https://json-schema.org/draft/2020-12/schema" };
+    deepTraverse(schema, (obj) => {
+      if (obj.$dynamicRef === "#meta") {
+        delete obj.$dynamicRef;
+        obj.$ref = "#/$defs/schema";
+      }
+    });
+    validator = new Ajv2020({ allErrors: true, strict: false, validateFormats: false }).compile(schema);
+  }
+  return validator;
+}
+
+function formatError(error: ErrorObject): string {
+  return `${error.instancePath || "/"} ${error.message ?? error.keyword}`;
+}
+
+/**
+ * Validate an OpenAPI 3.1 document against the OpenAPI 3.1 schema and JSON Schema 2020-12, and check that every
+ * local $ref resolves. Returns one message per problem.
+ */
+export function validateOpenAPI31(spec: OpenAPISpec): string[] {
+  const problems: string[] = [];
+
+  const validate = getValidator();
+  if (!validate(spec)) {
+    // The same failure is reported once per schema branch that was tried; keep each message once
+    problems.push(...new Set((validate.errors ?? []).map(formatError)));
+  }
+
+  deepTraverse(spec, (obj, path) => {
+    if (typeof obj.$ref === "string" && obj.$ref.startsWith("#/") && !resolveRef(spec, obj.$ref)) {
+      problems.push(`${toPointer(path)} $ref ${obj.$ref} does not resolve`);
+    }
+  });
+
+  return problems;
+}
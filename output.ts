@@ -0,0 +1,74 @@
+import { Document, Scalar, isScalar, visit } from "yaml";
+import type { OpenAPISpec, OutputFormat } from "./types.js";
+
+// ===== OUTPUT PATHS =====
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "yaml", "json-min"];
+
+const EXTENSIONS: Record<OutputFormat, string> = {
+  json: ".json",
+  yaml: ".yaml",
+  "json-min": ".min.json",
+};
+
+/**
+ * Path a format is written to, derived from the spec's output path (e.g. algod.oas3.json → algod.oas3.yaml)
+ */
+export function outputPathFor(outputPath: string, format: OutputFormat): string {
+  return `${outputPath.replace(/(\.min)?\.(json|ya?ml)$/, "")}${EXTENSIONS[format]}`;
+}
+
+/**
+ * Every file written for a spec, in the configured format order
+ */
+export function outputPaths(outputPath: string, formats: OutputFormat[] = ["json"]): { format: OutputFormat; path: string }[] {
+  if (formats.length === 0) {
+    throw new Error("outputFormats must list at least one format");
+  }
+  return [...new Set(formats)].map((format) => ({ format, path: outputPathFor(outputPath, format) }));
+}
+
+// ===== SERIALIZATION =====
+
+// Keys whose long or multi-line string values are written as YAML block scalars
+const BLOCK_SCALAR_KEYS = new Set(["description", "summary"]);
+const YAML_LINE_WIDTH = 120;
+
+/**
+ * Serialize to YAML in document key order, without anchors for repeated objects. Multi-line descriptions become
+ * literal block scalars and long single-line ones folded block scalars, so wording changes diff line by line.
+ */
+function toYaml(spec: OpenAPISpec, indent: number): string {
+  const doc = new Document(spec, { aliasDuplicateObjects: false });
+
+  visit(doc, {
+    Pair(_key, pair) {
+      if (!isScalar(pair.key) || !BLOCK_SCALAR_KEYS.has(String(pair.key.value))) return;
+      if (!isScalar(pair.value) || typeof pair.value.value !== "string") return;
+
+      const text = pair.value.value;
+      if (text.includes("\n")) {
+        pair.value.type = Scalar.BLOCK_LITERAL;
+      } else if (text.length > YAML_LINE_WIDTH) {
+        pair.value.type = Scalar.BLOCK_FOLDED;
+      }
+    },
+  });
+
+  return doc.toString({ indent, lineWidth: YAML_LINE_WIDTH });
+}
+
+/**
+ * Serialize a spec in one output format. YAML always ends with a newline; JSON only with `trailingNewline`.
+ */
+export function formatSpec(spec: OpenAPISpec, format: OutputFormat, indent = 2, trailingNewline = false): string {
+  const newline = trailingNewline ? "\n" : "";
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(spec, null, indent)}${newline}`;
+    case "json-min":
+      return `${JSON.stringify(spec)}${newline}`;
+    case "yaml":
+      return toYaml(spec, indent);
+  }
+}
@@ -0,0 +1,190 @@
+import { readFile } from "node:fs/promises";
+import { isDeepStrictEqual } from "node:util";
+import { parse as parseYaml } from "yaml";
+import { queryJsonPath, toJsonPath } from "./jsonPath.js";
+import type { OpenAPISpec, OverlayInput } from "./types.js";
+
+// OpenAPI Overlay 1.0 (https://spec.openapis.org/overlay/v1.0.0): ordered actions, each selecting nodes with a
+// JSONPath `target` and either removing them or merging an `update` into them. Used both to apply overlays listed in
+// the overlays config section and to export the net effect of a spec's config rules as an overlay.
+
+// ===== TYPES =====
+
+export interface OverlayAction {
+  target: string; // JSONPath selecting the nodes to change, e.g. "$.paths['/v2/status'].get"
+  description?: string;
+  update?: unknown; // Merged into each target object, or appended to each target array
+  remove?: boolean; // Remove each target from its parent
+}
+
+export interface OverlayDocument {
+  overlay: string; // Overlay specification version, "1.0.0"
+  info: { title: string; version: string; description?: string };
+  extends?: string; // URL of the document the overlay was written for
+  actions: OverlayAction[];
+}
+
+export interface LoadedOverlay extends Required<OverlayInput> {
+  document: OverlayDocument;
+}
+
+// ===== LOADING =====
+
+function checkOverlay(path: string, document: any): OverlayDocument {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid overlay ${path}: ${message}`);
+  };
+
+  if (!document || typeof document !== "object") fail("expected a YAML or JSON object");
+  if (typeof document.overlay !== "string" || !document.overlay.startsWith("1.")) {
+    fail(`unsupported overlay version ${JSON.stringify(document.overlay)} (expected 1.x)`);
+  }
+  if (typeof document.info?.title !== "string" || typeof document.info?.version !== "string") {
+    fail("info needs a title and a version");
+  }
+  if (!Array.isArray(document.actions) || document.actions.length === 0) fail("actions must be a non-empty list");
+  document.actions.forEach((action: any, index: number) => {
+    if (typeof action?.target !== "string") fail(`actions[${index}] needs a target`);
+    if (action.update === undefined && action.remove !== true) fail(`actions[${index}] needs update or remove: true`);
+  });
+  return document;
+}
+
+/**
+ * Read and check the overlay documents listed in a spec config, in order
+ */
+export async function loadOverlays(inputs: OverlayInput[]): Promise<LoadedOverlay[]> {
+  return Promise.all(
+    inputs.map(async ({ path, stage = "transformed" }) => {
+      const content = await readFile(path, "utf8");
+      const document = /\.ya?ml$/.test(path) ? parseYaml(content) : JSON.parse(content);
+      return { path, stage, document: checkOverlay(path, document) };
+    }),
+  );
+}
+
+// ===== APPLYING =====
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Merge `update` into `target`: objects are merged recursively, any other value replaces the target's
+ */
+function mergeInto(target: Record<string, any>, update: Record<string, any>): void {
+  for (const [key, value] of Object.entries(update)) {
+    if (isObject(value) && isObject(target[key])) {
+      mergeInto(target[key], value);
+    } else {
+      target[key] = structuredClone(value);
+    }
+  }
+}
+
+/**
+ * Apply the actions of an overlay to `spec` in order. Returns how many nodes each action changed, by action index;
+ * throws on actions that cannot apply, naming the overlay by `name`.
+ */
+export function applyOverlay(spec: OpenAPISpec, overlay: OverlayDocument, name: string): number[] {
+  return overlay.actions.map((action, index) => {
+    const fail = (message: string): never => {
+      throw new Error(`${name} action ${index + 1} (${action.target}) failed: ${message}`);
+    };
+
+    const nodes = queryJsonPath(spec, action.target);
+    if (action.remove) {
+      // Remove from the end so that earlier array indexes stay valid
+      for (const node of [...nodes].reverse()) {
+        if (node.parent === null) fail("the document root cannot be removed");
+        if (Array.isArray(node.parent)) {
+          node.parent.splice(node.key as number, 1);
+        } else {
+          delete node.parent[node.key!];
+        }
+      }
+      return nodes.length;
+    }
+
+    for (const node of nodes) {
+      if (Array.isArray(node.value)) {
+        node.value.push(structuredClone(action.update));
+      } else if (isObject(node.value) && isObject(action.update)) {
+        mergeInto(node.value, action.update);
+      } else {
+        fail(`cannot merge ${JSON.stringify(action.update)} into ${JSON.stringify(node.value)}`);
+      }
+    }
+    return nodes.length;
+  });
+}
+
+// ===== EXPORTING =====
+
+type Path = (string | number)[];
+
+/**
+ * Whether two arrays can be updated element by element: same length, and every differing element is an object
+ */
+function alignedArrays(before: unknown[], after: unknown[]): boolean {
+  return (
+    before.length === after.length && before.every((item, i) => isDeepStrictEqual(item, after[i]) || (isObject(item) && isObject(after[i])))
+  );
+}
+
+/**
+ * Collect the removals and updates that turn the object (or aligned array) `before` at `path` into `after`
+ */
+function collectActions(
+  before: Record<string, any> | unknown[],
+  after: Record<string, any> | unknown[],
+  path: Path,
+  actions: { removes: Path[]; updates: [Path, Record<string, unknown>][] },
+): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    before.forEach((item, i) => {
+      if (isDeepStrictEqual(item, after[i])) return;
+      collectActions(item as Record<string, any>, after[i] as Record<string, any>, [...path, i], actions);
+    });
+    return;
+  }
+
+  const [from, to] = [before as Record<string, any>, after as Record<string, any>];
+  const update: Record<string, unknown> = {};
+  for (const key of Object.keys(from)) {
+    if (!Object.hasOwn(to, key)) actions.removes.push([...path, key]);
+  }
+  for (const [key, value] of Object.entries(to)) {
+    if (!Object.hasOwn(from, key)) {
+      update[key] = value;
+    } else if (isDeepStrictEqual(from[key], value)) {
+      continue;
+    } else if (isObject(from[key]) && isObject(value)) {
+      collectActions(from[key], value, [...path, key], actions);
+    } else if (Array.isArray(from[key]) && Array.isArray(value) && alignedArrays(from[key], value)) {
+      collectActions(from[key], value, [...path, key], actions);
+    } else {
+      // Arrays and objects are replaced wholesale: remove the old value so that the update cannot merge or append
+      if (from[key] !== null && typeof from[key] === "object") actions.removes.push([...path, key]);
+      update[key] = value;
+    }
+  }
+  if (Object.keys(update).length > 0) actions.updates.push([path, update]);
+}
+
+/**
+ * Overlay whose actions turn `before` into `after` (ignoring key order): removals first, then one update per
+ * changed object. Arrays that change length or have differing non-object elements are replaced as a whole.
+ */
+export function buildOverlay(before: OpenAPISpec, after: OpenAPISpec, info: OverlayDocument["info"]): OverlayDocument {
+  const actions = { removes: [] as Path[], updates: [] as [Path, Record<string, unknown>][] };
+  collectActions(before, after, [], actions);
+  return {
+    overlay: "1.0.0",
+    info,
+    actions: [
+      ...actions.removes.map((path) => ({ target: toJsonPath(path), remove: true })),
+      ...actions.updates.map(([path, update]) => ({ target: toJsonPath(path), update: structuredClone(update) })),
+    ],
+  };
+}
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { OpenAPIProcessor } from "./processor.js";
+import { SPECS } from "./config.js";
+import { diffJson } from "./jsonDiff.js";
+import { readLock, type UpstreamLockEntry } from "./lockfile.js";
+import type { ProcessingConfig, SpecDefinition } from "./types.js";
+
+// Compares the output of the in-process Swagger 2.0 converter with the committed specs/*.oas3.json.
+//
+// Usage: tsx parity.ts [--input <spec>=<oas2 file>]... [--algod-only | --kmd-only | --indexer-only]
+//
+// Specs without an --input are fetched from specs/upstream.lock.json and fail when not locked.
+
+const MAX_REPORTED_DIFFERENCES = 25;
+
+function parseInputs(args: string[]): Map<string, string> {
+  const inputs = new Map<string, string>();
+  args.forEach((arg, i) => {
+    if (arg !== "--input") return;
+    const value = args[i + 1];
+    const separator = value?.indexOf("=") ?? -1;
+    if (separator <= 0) {
+      throw new Error(`Expected --input <spec>=<path>, got ${value}`);
+    }
+    inputs.set(value.slice(0, separator), value.slice(separator + 1));
+  });
+  return inputs;
+}
+
+async function checkParity(spec: SpecDefinition, input: string | undefined, locked: UpstreamLockEntry | undefined): Promise<boolean> {
+  const sourceUrl = input ?? locked?.url;
+  if (!sourceUrl) {
+    throw new Error(`No ${spec.name} entry in specs/upstream.lock.json: run \`npm run update-specs\` or pass --input ${spec.name}=<path>`);
+  }
+  const config: ProcessingConfig = {
+    ...spec.config,
+    sourceUrl,
+    sourceSha256: input ? undefined : locked?.sha256,
+    outputPath: join(process.cwd(), "specs", spec.outputFile),
+    converter: "local",
+  };
+
+  const generated = await new OpenAPIProcessor(config).generate();
+  const committed = JSON.parse(await readFile(config.outputPath, "utf8"));
+  const differences = diffJson(committed, generated);
+
+  if (differences.length > 0) {
+    console.error(`❌ ${spec.name}: ${differences.length} differences from ${spec.outputFile}`);
+    for (const change of differences.slice(0, MAX_REPORTED_DIFFERENCES)) {
+      console.error(`  - ${change.op} ${change.pointer}`);
+    }
+    if (differences.length > MAX_REPORTED_DIFFERENCES) {
+      console.error(`  ... and ${differences.length - MAX_REPORTED_DIFFERENCES} more`);
+    }
+    return false;
+  }
+
+  const indent = spec.config.indent || 2;
+  if (JSON.stringify(committed, null, indent) !== JSON.stringify(generated, null, indent)) {
+    console.error(`❌ ${spec.name}: content matches ${spec.outputFile} but key order differs`);
+    return false;
+  }
+
+  console.log(`✅ ${spec.name}: local conversion matches ${spec.outputFile}`);
+  return true;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const inputs = parseInputs(args);
+  const lock = await readLock(join(process.cwd(), "specs", "upstream.lock.json"));
+  const selected = SPECS.filter((spec) => args.includes(spec.cliFlag));
+
+  const results = [];
+  for (const spec of selected.length > 0 ? selected : SPECS) {
+    results.push(await checkParity(spec, inputs.get(spec.name), lock[spec.name]));
+  }
+
+  if (results.includes(false)) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import type { BigIntCandidate, GeneratedFallback } from "./report.js";
+import type { OpenAPISpec, ProcessingConfig, SpecConfig } from "./types.js";
+
+// ===== TYPES =====
+
+// Where plugin passes hook into processing:
+//   source       on the raw Swagger 2.0 document, before conversion
+//   converted    on the OpenAPI 3.0 document, before the first built-in pass
+//   transformed  after the last built-in pass, before validation (default)
+export type PipelineStage = "source" | "converted" | "transformed";
+
+export const PIPELINE_STAGES: PipelineStage[] = ["source", "converted", "transformed"];
+
+export interface PassContext {
+  config: ProcessingConfig;
+  // Report how often each rule of a config group matched, see TransformAudit.recordRules. Pass a RuleMatches to
+  // also report what rules with glob or regex selectors matched.
+  recordRuleMatches<T>(group: string, rules: T[], matches: Map<T, number>, describe: (rule: T) => string): void;
+  // Flag a required value the pass had to generate because upstream left it out and no config supplied it
+  recordFallback(fallback: GeneratedFallback): void;
+  // Flag an integer field that looks 64-bit but no bigIntFields rule marked
+  recordBigIntCandidate(candidate: BigIntCandidate): void;
+}
+
+/**
+ * Match counts per config rule, plus the names matched by rules that select by glob or regex (see selectors.ts)
+ */
+export class RuleMatches<T> extends Map<T, number> {
+  readonly matched = new Map<T, Set<string>>();
+
+  /**
+   * Count a match for `rule`, remembering `name` when the rule selected it by pattern
+   */
+  count(rule: T, name?: string): void {
+    this.set(rule, (this.get(rule) ?? 0) + 1);
+    if (name === undefined) return;
+    const names = this.matched.get(rule) ?? new Set<string>();
+    this.matched.set(rule, names.add(name));
+  }
+}
+
+export interface Pass {
+  name: string; // Identifier used in passOrder, disablePasses and insertPasses, e.g. "fixBigInt"
+  description: string;
+  // Whether the pass has anything to do for this config; passes that don't apply are skipped
+  applies?: (config: SpecConfig) => boolean;
+  // Transform the spec in place and return the number of changes made
+  run: (spec: OpenAPISpec, context: PassContext) => number;
+  summarize: (count: number) => string;
+}
+
+// ===== PIPELINE =====
+
+function findPass(passes: Pass[], name: string, option: string): Pass {
+  const pass = passes.find((p) => p.name === name);
+  if (!pass) {
+    throw new Error(`Unknown pass "${name}" in ${option} (available: ${passes.map((p) => p.name).join(", ")})`);
+  }
+  return pass;
+}
+
+/**
+ * Resolve the effective pass order for a spec: start from `passOrder` (or the registry order), drop
+ * `disablePasses`, then apply each `insertPasses` entry, moving the pass if it is already in the pipeline.
+ */
+export function resolvePipeline(passes: Pass[], config: SpecConfig): Pass[] {
+  let pipeline = config.passOrder ? config.passOrder.map((name) => findPass(passes, name, "passOrder")) : [...passes];
+
+  for (const name of config.disablePasses ?? []) {
+    findPass(passes, name, "disablePasses");
+    pipeline = pipeline.filter((pass) => pass.name !== name);
+  }
+
+  for (const insertion of config.insertPasses ?? []) {
+    const pass = findPass(passes, insertion.pass, "insertPasses");
+    const anchorName = insertion.before ?? insertion.after;
+    if (!anchorName || (insertion.before && insertion.after)) {
+      throw new Error(`insertPasses entry for "${insertion.pass}" needs exactly one of before or after`);
+    }
+
+    pipeline = pipeline.filter((p) => p !== pass);
+    const anchor = pipeline.findIndex((p) => p.name === anchorName);
+    if (anchor === -1) {
+      throw new Error(`Cannot insert "${insertion.pass}" relative to "${anchorName}": pass is not in the pipeline`);
+    }
+    pipeline.splice(insertion.before ? anchor : anchor + 1, 0, pass);
+  }
+
+  return pipeline;
+}
@@ -0,0 +1,107 @@
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { PIPELINE_STAGES, type Pass, type PassContext, type PipelineStage } from "./pipeline.js";
+import type { OpenAPISpec, SpecDefinition } from "./types.js";
+
+// ===== TYPES =====
+
+export interface PluginPass extends Pass {
+  stage?: PipelineStage; // Defaults to "transformed"
+}
+
+export interface SpecValidator {
+  name: string;
+  // Return one message per problem; any problem fails the run
+  validate: (spec: OpenAPISpec, context: PassContext) => string[] | Promise<string[]>;
+}
+
+/**
+ * Shape of a plugin module's default export
+ */
+export interface OpenAPIConverterPlugin {
+  name: string;
+  passes?: PluginPass[]; // Run for every spec whose config lists the plugin
+  validators?: SpecValidator[]; // Run after OpenAPI validation for every spec whose config lists the plugin
+  specs?: SpecDefinition[]; // Extra specs added to the registry
+}
+
+/**
+ * Identity helper that gives plugin modules type checking
+ */
+export function definePlugin(plugin: OpenAPIConverterPlugin): OpenAPIConverterPlugin {
+  return plugin;
+}
+
+// ===== LOADING =====
+
+const loaded = new Map<string, Promise<OpenAPIConverterPlugin>>();
+
+function checkPlugin(path: string, plugin: any): OpenAPIConverterPlugin {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid plugin ${path}: ${message}`);
+  };
+
+  if (!plugin || typeof plugin !== "object") fail("module must default-export a plugin object");
+  if (typeof plugin.name !== "string") fail("missing name");
+  for (const pass of plugin.passes ?? []) {
+    if (typeof pass?.name !== "string" || typeof pass.run !== "function" || typeof pass.summarize !== "function") {
+      fail(`passes need a name, run() and summarize() (got ${pass?.name ?? "an unnamed pass"})`);
+    }
+    if (pass.stage !== undefined && !PIPELINE_STAGES.includes(pass.stage)) {
+      fail(`pass ${pass.name} has unknown stage "${pass.stage}" (expected ${PIPELINE_STAGES.join(", ")})`);
+    }
+  }
+  for (const validator of plugin.validators ?? []) {
+    if (typeof validator?.name !== "string" || typeof validator.validate !== "function") {
+      fail("validators need a name and validate()");
+    }
+  }
+  for (const spec of plugin.specs ?? []) {
+    if (typeof spec?.name !== "string" || typeof spec.outputFile !== "string" || !spec.github || !spec.config) {
+      fail(`specs need a name, config, github source and outputFile (got ${spec?.name ?? "an unnamed spec"})`);
+    }
+  }
+  return plugin;
+}
+
+/**
+ * Import a plugin module (TypeScript or JavaScript). Each module is loaded once per process.
+ */
+export function loadPlugin(path: string): Promise<OpenAPIConverterPlugin> {
+  const absolutePath = resolve(path);
+  if (!loaded.has(absolutePath)) {
+    loaded.set(
+      absolutePath,
+      import(pathToFileURL(absolutePath).href).then((module) => checkPlugin(path, module.default ?? module.plugin)),
+    );
+  }
+  return loaded.get(absolutePath)!;
+}
+
+export async function loadPlugins(paths: string[]): Promise<OpenAPIConverterPlugin[]> {
+  return Promise.all([...new Set(paths.map((path) => resolve(path)))].map(loadPlugin));
+}
+
+// ===== REGISTRY =====
+
+/**
+ * Combine the built-in passes with plugin passes: source-stage passes run before conversion, converted-stage
+ * passes are registered ahead of the built-in passes and transformed-stage passes after them.
+ */
+export function buildPassRegistry(builtin: Pass[], plugins: OpenAPIConverterPlugin[]): { source: Pass[]; pipeline: Pass[] } {
+  const pluginPasses = plugins.flatMap((plugin) => plugin.passes ?? []);
+
+  const names = new Set(builtin.map((pass) => pass.name));
+  for (const pass of pluginPasses) {
+    if (names.has(pass.name)) {
+      throw new Error(`Plugin pass "${pass.name}" clashes with another pass of the same name`);
+    }
+    names.add(pass.name);
+  }
+
+  const atStage = (stage: PipelineStage) => pluginPasses.filter((pass) => (pass.stage ?? "transformed") === stage);
+  return {
+    source: atStage("source"),
+    pipeline: [...atStage("converted"), ...builtin, ...atStage("transformed")],
+  };
+}
@@ -1,5 +1,8 @@
-import { writeFile } from "node:fs/promises";
+import { readFile, writeFile } from "node:fs/promises";
+import { STATUS_CODES } from "node:http";
+import { basename } from "node:path";
 import SwaggerParser from "@apidevtools/swagger-parser";
+import { parse as parseYaml } from "yaml";
 import type {
   OpenAPISpec,
   OAS2Spec,
@@ -14,95 +17,52 @@ import type {
   EndpointTagTransform,
   FixedLengthByteField,
   OperationIdTransform,
+  FieldRename,
+  FieldScope,
+  BigIntField,
+  BigIntInference,
+  SchemaVendorExtension,
+  OutputFormat,
+  SpecConfig,
+  TextPatch,
+  DescriptionOverride,
 } from "./types.js";
-import { MISSING_DESCRIPTIONS, FIELD_RENAMES, BIGINT_FIELDS, FIXED_LENGTH_BYTE_FIELDS } from "./config.js";
-
-// ===== TRAVERSAL UTILITIES =====
-
-type TraverseVisitor = (obj: any, path: string[], parent: any | null, key: string | number | null) => void | "skip";
-
-function deepTraverse(
-  obj: any,
-  visitor: TraverseVisitor,
-  path: string[] = [],
-  parent: any | null = null,
-  key: string | number | null = null,
-): void {
-  if (!obj || typeof obj !== "object") return;
-  const result = visitor(obj, path, parent, key);
-  if (result === "skip") return;
-  if (Array.isArray(obj)) {
-    obj.forEach((item, i) => deepTraverse(item, visitor, [...path, i.toString()], obj, i));
-  } else {
-    for (const [k, v] of Object.entries(obj)) {
-      if (v && typeof v === "object") {
-        deepTraverse(v, visitor, [...path, k], obj, k);
-      }
-    }
-  }
-}
-
-function forEachSchema(spec: OpenAPISpec, callback: (schemaName: string, schema: any) => void): void {
-  const schemas = spec.components?.schemas;
-  if (!schemas) return;
-  for (const [name, schema] of Object.entries(schemas)) {
-    if (schema && typeof schema === "object") {
-      callback(name, schema);
-    }
-  }
-}
-
-function forEachSchemaProperty(
-  spec: OpenAPISpec,
-  callback: (schemaName: string, propName: string, propDef: any, schema: any) => void,
-): void {
-  forEachSchema(spec, (schemaName, schema) => {
-    if (!schema.properties) return;
-    for (const [propName, propDef] of Object.entries(schema.properties as Record<string, any>)) {
-      if (propDef && typeof propDef === "object") {
-        callback(schemaName, propName, propDef, schema);
-      }
-    }
-  });
-}
-
-const HTTP_METHODS = ["get", "post", "put", "delete", "patch", "head", "options", "trace"] as const;
+import { convertSwagger2ToOpenAPI3 } from "./converter.js";
+import { diffJson, toPointer } from "./jsonDiff.js";
+import { TransformAudit, type BigIntCandidate, type GeneratedFallback } from "./report.js";
+import { sha256 } from "./lockfile.js";
+import { UpstreamCache } from "./cache.js";
+import { resolvePipeline, RuleMatches, type Pass, type PassContext, type PipelineStage } from "./pipeline.js";
+import { buildPassRegistry, loadPlugins } from "./plugins.js";
+import { formatSpec, outputPaths } from "./output.js";
+import { modelPathFor, renderModels, type RenderedModels } from "./models.js";
+import { canonicalizeSpec, resolveCanonicalOrdering } from "./canonical.js";
+import { upgradeToOpenAPI31, validateOpenAPI31 } from "./openapi31.js";
+import { applyJsonPatch, resolvePatchPath } from "./jsonPatch.js";
+import { applyOverlay, loadOverlays, type LoadedOverlay, type OverlayAction } from "./overlay.js";
+import { isPattern, matchesSelector, parseRegexLiteral, renameMatch, selectKeys } from "./selectors.js";
+import { fieldPositionLabel, forEachField, formatFieldPath, inFieldScope, lastFieldName, matchesField, parseFieldPath } from "./fields.js";
+import { deepTraverse, forEachOperation, forEachSchema, resolveRef, updateAllRefs } from "./traversal.js";
+
+// ===== RULE MATCHING =====
 
-function forEachOperation(spec: OpenAPISpec, callback: (path: string, method: string, operation: any, pathObj: any) => void): void {
-  if (!spec.paths) return;
-  for (const [path, pathObj] of Object.entries(spec.paths)) {
-    if (!pathObj || typeof pathObj !== "object") continue;
-    for (const method of HTTP_METHODS) {
-      const operation = (pathObj as any)[method];
-      if (operation) callback(path, method, operation, pathObj);
-    }
+/**
+ * Count a match for a config rule so that rules which no longer match anything can be reported. `name` is what the
+ * rule matched, remembered for the audit when any of the rule's `selectors` is a glob or regex.
+ */
+function countMatch<T>(matches: Map<T, number>, rule: T, name?: string, ...selectors: (string | string[] | undefined)[]): void {
+  if (matches instanceof RuleMatches) {
+    matches.count(rule, name !== undefined && isPattern(...selectors) ? name : undefined);
+  } else {
+    matches.set(rule, (matches.get(rule) ?? 0) + 1);
   }
 }
 
-function forEachParameter(
-  spec: OpenAPISpec,
-  callback: (path: string, method: string, param: any, paramIndex: number, operation: any) => void,
-): void {
-  forEachOperation(spec, (path, method, operation) => {
-    if (!operation.parameters || !Array.isArray(operation.parameters)) return;
-    operation.parameters.forEach((param: any, index: number) => {
-      callback(path, method, param, index, operation);
-    });
-  });
-}
-
-function updateAllRefs(spec: OpenAPISpec, oldToNew: Record<string, string>): number {
-  let count = 0;
-  deepTraverse(spec, (obj) => {
-    if (typeof obj.$ref === "string" && obj.$ref.startsWith("#/components/schemas/")) {
-      const refName = obj.$ref.substring("#/components/schemas/".length);
-      if (oldToNew[refName]) {
-        obj.$ref = `#/components/schemas/${oldToNew[refName]}`;
-        count++;
-      }
-    }
-  });
-  return count;
+/**
+ * Label for a field matched by a rule, e.g. "Account.amount", or just the field name outside component schemas
+ */
+function fieldLabel(fieldName: string, schemaName?: string): string {
+  return schemaName ? `${schemaName}.${fieldName}` : fieldName;
 }
 
 // ===== TRANSFORMATIONS =====
@@ -139,70 +99,71 @@ export function extractInlineSchemas(spec: OAS2Spec): void {
 }
 
 /**
- * Find and fix missing descriptions in the spec
+ * Set the description and summary of the nodes addressed by each override's JSON Pointer
  */
-function fixMissingDescriptions(spec: OpenAPISpec): number {
-  let fixedCount = 0;
-  const missingPaths: string[] = [];
-
-  // Check component responses
-  if (spec.components?.responses) {
-    for (const [name, response] of Object.entries(spec.components.responses)) {
-      if (response && typeof response === "object" && !response.description) {
-        const path = `components.responses.${name}.description`;
-        const description = MISSING_DESCRIPTIONS.get(path);
-
-        if (description) {
-          response.description = description;
-          fixedCount++;
-        } else {
-          missingPaths.push(path);
-        }
-      }
+export function applyDescriptionOverrides(
+  spec: OpenAPISpec,
+  overrides: DescriptionOverride[],
+  matches: Map<DescriptionOverride, number> = new Map(),
+): number {
+  let appliedCount = 0;
+
+  for (const override of overrides) {
+    const node = resolvePatchPath(spec, override.pointer);
+    if (!node || typeof node !== "object" || Array.isArray(node)) continue;
+
+    for (const field of ["description", "summary"] as const) {
+      if (override[field] === undefined) continue;
+      (node as Record<string, unknown>)[field] = override[field];
+      appliedCount++;
     }
+    countMatch(matches, override);
   }
 
-  // Check path responses
-  if (spec.paths) {
-    for (const [pathName, pathObj] of Object.entries(spec.paths)) {
-      if (!pathObj || typeof pathObj !== "object") continue;
+  return appliedCount;
+}
 
-      const methods = ["get", "post", "put", "delete", "patch", "head", "options", "trace"];
+/**
+ * Description generated for a response that has none: the status text and operationId for operation responses,
+ * the spaced-out name for component responses (e.g. "Node status response")
+ */
+function fallbackDescription(statusOrName: string, operationId?: string): string {
+  if (operationId === undefined) {
+    const words = statusOrName.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+  const status = STATUS_CODES[statusOrName] ?? (statusOrName === "default" ? "Default" : statusOrName);
+  return operationId ? `${status} response from ${operationId}` : status;
+}
 
-      for (const method of methods) {
-        const operation = pathObj[method];
-        if (!operation?.responses) continue;
+/**
+ * Generate the descriptions OpenAPI requires on every response but upstream left out, collecting each one in
+ * `fallbacks` so that it can be flagged and replaced by a descriptionOverrides entry
+ */
+export function fixMissingDescriptions(spec: OpenAPISpec, fallbacks: GeneratedFallback[] = []): number {
+  const generate = (response: any, path: (string | number)[], statusOrName: string, operationId?: string) => {
+    if (!response || typeof response !== "object" || response.$ref || response.description) return;
+    response.description = fallbackDescription(statusOrName, operationId);
+    fallbacks.push({ pointer: toPointer([...path, "description"]), value: response.description });
+  };
 
-        for (const [statusCode, response] of Object.entries(operation.responses)) {
-          if (response && typeof response === "object" && !(response as any).description) {
-            const path = `paths.'${pathName}'(${method}).responses.${statusCode}.description`;
-            const description = MISSING_DESCRIPTIONS.get(path);
-
-            if (description) {
-              (response as any).description = description;
-              fixedCount++;
-            } else {
-              missingPaths.push(path);
-            }
-          }
-        }
-      }
-    }
+  for (const [name, response] of Object.entries(spec.components?.responses ?? {})) {
+    generate(response, ["components", "responses", name], name);
   }
 
-  // Report new missing descriptions
-  if (missingPaths.length > 0) {
-    console.warn(`⚠️  Found ${missingPaths.length} new missing descriptions:`);
-    missingPaths.forEach((path) => console.warn(`  - ${path}`));
-  }
+  forEachOperation(spec, (pathName, method, operation) => {
+    for (const [statusCode, response] of Object.entries(operation.responses ?? {})) {
+      generate(response, ["paths", pathName, method, "responses", statusCode], statusCode, operation.operationId ?? "");
+    }
+  });
 
-  return fixedCount;
+  return fallbacks.length;
 }
 
 /**
  * Fix pydantic recursion error by removing format: byte from AvmValue schema
  */
-function fixPydanticRecursionError(spec: OpenAPISpec): number {
+export function fixPydanticRecursionError(spec: OpenAPISpec): number {
   let fixedCount = 0;
 
   // Check if AvmValue schema exists
@@ -223,7 +184,7 @@ function fixPydanticRecursionError(spec: OpenAPISpec): number {
 /**
  * Transform vendor extensions throughout the spec
  */
-function transformVendorExtensions(spec: OpenAPISpec, transforms: VendorExtensionTransform[]): Record<string, number> {
+export function transformVendorExtensions(spec: OpenAPISpec, transforms: VendorExtensionTransform[]): Record<string, number> {
   const counts: Record<string, number> = {};
   transforms.forEach((t) => (counts[`${t.sourceProperty}:${t.sourceValue}`] = 0));
 
@@ -241,77 +202,41 @@ function transformVendorExtensions(spec: OpenAPISpec, transforms: VendorExtensio
 }
 
 /**
- * Fix field naming - Add field rename extensions for better ergonomics
+ * Fix field naming - Add x-algokit-field-rename extensions for the spec's fieldRenames. Parameters carry the
+ * extension on the parameter object, every other field on its schema.
  */
-function fixFieldNaming(spec: OpenAPISpec): number {
+export function fixFieldNaming(spec: OpenAPISpec, renames: FieldRename[], matches: Map<FieldRename, number> = new Map()): number {
   let fixedCount = 0;
 
-  const findRename = (propName: string, schemaName?: string) =>
-    FIELD_RENAMES.find((r) => r.from === propName && (!r.schemaName || r.schemaName === schemaName));
-
-  // Process schema properties
-  forEachSchemaProperty(spec, (schemaName, propName, propDef) => {
-    const rename = findRename(propName, schemaName);
-    if (rename) {
-      propDef["x-algokit-field-rename"] = rename.to;
-      fixedCount++;
-    }
-  });
-
-  // Process inline response schemas
-  deepTraverse(spec, (obj, path) => {
-    if (path.length >= 2 && path[path.length - 1] === "properties" && path.includes("responses")) {
-      for (const [propName, propDef] of Object.entries(obj as Record<string, any>)) {
-        const rename = findRename(propName);
-        if (rename && propDef && typeof propDef === "object") {
-          (propDef as any)["x-algokit-field-rename"] = rename.to;
-          fixedCount++;
-        }
-      }
-    }
+  forEachField(spec, (field) => {
+    const rename = renames.find((r) => matchesField(r.from, field) && inFieldScope(r, field));
+    if (!rename) return;
+    (field.parameter ?? field.schema)["x-algokit-field-rename"] = renameMatch(lastFieldName(rename.from), field.name, rename.to);
+    countMatch(matches, rename, fieldPositionLabel(field), rename.from, rename.schemaName, rename.path, rename.excludedModels);
+    fixedCount++;
   });
 
   return fixedCount;
 }
 
 /**
- * Fix bigint - Add x-algokit-bigint: true to properties that represent large integers
+ * Fix bigint - Add x-algokit-bigint: true to integer fields listed in the spec's bigIntFields
  */
-function fixBigInt(spec: OpenAPISpec): number {
+export function fixBigInt(spec: OpenAPISpec, fields: BigIntField[], matches: Map<BigIntField, number> = new Map()): number {
   let fixedCount = 0;
 
-  const shouldMark = (fieldName: string, schemaName?: string) =>
-    BIGINT_FIELDS.some((f) => f.fieldName === fieldName && (!f.excludedModels || !schemaName || !f.excludedModels.includes(schemaName)));
-
-  // Process schema properties
-  forEachSchemaProperty(spec, (schemaName, propName, propDef) => {
-    if (propDef.type === "integer" && !propDef["x-algokit-bigint"] && shouldMark(propName, schemaName)) {
-      propDef["x-algokit-bigint"] = true;
-      fixedCount++;
-    }
-  });
-
-  // Process parameters
-  forEachParameter(spec, (_path, _method, param) => {
-    const schema = param.schema;
-    if (schema && schema.type === "integer" && !schema["x-algokit-bigint"] && shouldMark(param.name)) {
-      schema["x-algokit-bigint"] = true;
+  forEachField(spec, (field) => {
+    if (field.schema.type !== "integer") return;
+    const rule = fields.find((f) => matchesField(f.fieldName, field) && inFieldScope(f, field));
+    if (!rule) return;
+    // Count the match even when already marked, so only rules that select nothing are reported as stale
+    countMatch(matches, rule, fieldPositionLabel(field), rule.fieldName, rule.schemaName, rule.path, rule.excludedModels);
+    if (!field.schema["x-algokit-bigint"]) {
+      field.schema["x-algokit-bigint"] = true;
       fixedCount++;
     }
   });
 
-  // Process inline response schemas
-  deepTraverse(spec, (obj, path) => {
-    if (path.length >= 2 && path[path.length - 1] === "properties" && path.includes("responses")) {
-      for (const [propName, propDef] of Object.entries(obj as Record<string, any>)) {
-        if (propDef && typeof propDef === "object" && propDef.type === "integer" && !propDef["x-algokit-bigint"] && shouldMark(propName)) {
-          propDef["x-algokit-bigint"] = true;
-          fixedCount++;
-        }
-      }
-    }
-  });
-
   return fixedCount;
 }
 
@@ -319,134 +244,116 @@ function fixBigInt(spec: OpenAPISpec): number {
  * Fix fixed-length byte arrays - Add x-algokit-byte-length to byte fields that have a known fixed length
  * This is similar to how js-algorand-sdk uses FixedLengthByteArraySchema(32) for 32-byte fields
  */
-function fixFixedLengthByteFields(spec: OpenAPISpec, fields: FixedLengthByteField[]): number {
+export function fixFixedLengthByteFields(
+  spec: OpenAPISpec,
+  fields: FixedLengthByteField[],
+  matches: Map<FixedLengthByteField, number> = new Map(),
+): number {
   let fixedCount = 0;
 
-  const findByteLength = (fieldName: string, schemaName?: string) =>
-    fields.find((f) => f.fieldName === fieldName && (!f.schemaName || f.schemaName === schemaName));
-
-  // Process schema properties
-  forEachSchemaProperty(spec, (schemaName, propName, propDef) => {
+  forEachField(spec, (field) => {
     // Only apply to byte format string fields
-    if (propDef.type === "string" && propDef.format === "byte" && !propDef["x-algokit-byte-length"]) {
-      const field = findByteLength(propName, schemaName);
-      if (field) {
-        propDef["x-algokit-byte-length"] = field.byteLength;
-        fixedCount++;
-      }
+    const { schema } = field;
+    if (schema.type !== "string" || schema.format !== "byte") return;
+    const rule = fields.find((f) => matchesField(f.fieldName, field) && inFieldScope(f, field));
+    if (!rule) return;
+    // Count the match even when already marked, so only rules that select nothing are reported as stale
+    countMatch(matches, rule, fieldPositionLabel(field), rule.fieldName, rule.schemaName, rule.path, rule.excludedModels);
+    if (!schema["x-algokit-byte-length"]) {
+      schema["x-algokit-byte-length"] = rule.byteLength;
+      fixedCount++;
     }
   });
 
-  // Process inline response schemas
-  deepTraverse(spec, (obj, path) => {
-    if (path.length >= 2 && path[path.length - 1] === "properties" && path.includes("responses")) {
-      for (const [propName, propDef] of Object.entries(obj as Record<string, any>)) {
-        if (
-          propDef &&
-          typeof propDef === "object" &&
-          propDef.type === "string" &&
-          propDef.format === "byte" &&
-          !propDef["x-algokit-byte-length"]
-        ) {
-          const field = findByteLength(propName);
-          if (field) {
-            propDef["x-algokit-byte-length"] = field.byteLength;
-            fixedCount++;
-          }
-        }
-      }
-    }
+  return fixedCount;
+}
+
+const BIGINT_GO_TYPES = ["uint64", "int64", "basics.Round", "basics.AppIndex", "basics.AssetIndex", "basics.MicroAlgos"];
+const BIGINT_FORMATS = ["uint64", "int64"];
+const BIGINT_NAME_SUFFIXES = ["-round", "-amount", "-id"];
+
+/**
+ * Infer bigint fields - Find integer fields whose x-go-type, format or name suffix suggests a 64-bit value but that
+ * are not marked x-algokit-bigint, marking them when `inference.mode` is "mark". Candidates are added to
+ * `candidates` for the report.
+ */
+export function inferBigInt(spec: OpenAPISpec, inference: BigIntInference = {}, candidates: BigIntCandidate[] = []): number {
+  const {
+    mode = "report",
+    goTypes = BIGINT_GO_TYPES,
+    formats = BIGINT_FORMATS,
+    nameSuffixes = BIGINT_NAME_SUFFIXES,
+    ignoreFields = [],
+  } = inference;
+  let candidateCount = 0;
+
+  forEachField(spec, (field) => {
+    const { schema } = field;
+    if (schema.type !== "integer" || schema["x-algokit-bigint"]) return;
+
+    const suffix = field.segments.at(-1) === field.name ? nameSuffixes.find((s) => field.name.endsWith(s)) : undefined;
+    const evidence = [
+      goTypes.includes(schema["x-go-type"]) && `x-go-type ${schema["x-go-type"]}`,
+      formats.includes(schema.format) && `format ${schema.format}`,
+      suffix && `name suffix ${suffix}`,
+    ].filter((reason): reason is string => !!reason);
+    if (evidence.length === 0) return;
+    if (ignoreFields.some((f) => matchesField(f.fieldName, field) && inFieldScope(f, field))) return;
+
+    if (mode === "mark") schema["x-algokit-bigint"] = true;
+    candidates.push({ pointer: toPointer(field.pointer), evidence: evidence.join(", "), marked: mode === "mark" });
+    candidateCount++;
   });
 
-  return fixedCount;
+  return candidateCount;
 }
 
 /**
  * Transform specific properties by removing configured items and/or adding new items
  */
-function transformProperties(spec: OpenAPISpec, transforms: FieldTransform[]): number {
+export function transformProperties(
+  spec: OpenAPISpec,
+  transforms: FieldTransform[],
+  matches: Map<FieldTransform, number> = new Map(),
+): number {
   let transformedCount = 0;
 
   if (!transforms?.length) {
     return transformedCount;
   }
 
-  const processObject = (obj: any, currentPath: string[] = [], parent: any = null): void => {
-    if (!obj || typeof obj !== "object") return;
-
-    if (Array.isArray(obj)) {
-      obj.forEach((item, index) => processObject(item, [...currentPath, index.toString()], obj));
-      return;
-    }
-
-    // Check each configured transformation
-    for (const transform of transforms) {
-      const fullPath = currentPath.join(".");
-
-      // Handle dot-notation in fieldName (e.g., "account-id.schema" or "foreign-assets.items")
-      const fieldParts = transform.fieldName.split(".");
-      const baseName = fieldParts[0];
-
-      // Build possible match patterns
-      const targetPath = `properties.${transform.fieldName}`;
-      const parameterPath = `components.parameters.${transform.fieldName}`;
-
-      // Check if current path matches the target property path or parameter path
-      const isPropertyMatch = fullPath.endsWith(targetPath);
-      const isParameterMatch = fullPath.endsWith(parameterPath);
-
-      // Check if this is an inline parameter with matching name
-      let isInlineParameterMatch = false;
-      if (fieldParts.length === 1 && obj.name === baseName) {
-        // Simple case: the object itself has name="account-id"
-        isInlineParameterMatch = true;
-      } else if (fieldParts.length === 2 && parent && parent.name === baseName) {
-        // Nested case: parent has name="account-id" and we're at the nested property (e.g., "schema")
-        const lastPathPart = currentPath[currentPath.length - 1];
-        if (lastPathPart === fieldParts[1]) {
-          isInlineParameterMatch = true;
-        }
-      }
+  // A rule on a parameter edits the parameter object; "<name>.schema" edits its schema instead
+  const rules = transforms.map((transform) => {
+    const segments = parseFieldPath(transform.fieldName);
+    const parameterSchema = segments.length > 1 && segments.at(-1) === "schema";
+    return { transform, parameterSchema, fieldPath: parameterSchema ? formatFieldPath(segments.slice(0, -1)) : transform.fieldName };
+  });
 
-      if (isPropertyMatch || isParameterMatch || isInlineParameterMatch) {
-        // If schemaName is specified, check if we're in the correct schema context
-        // (only applies to properties, not parameters)
-        if (transform.schemaName && isPropertyMatch) {
-          const schemaPath = `components.schemas.${transform.schemaName}.properties.${transform.fieldName}`;
-          if (!fullPath.endsWith(schemaPath)) {
-            continue; // Skip this transform if not in the specified schema
-          }
-        }
+  forEachField(spec, (field) => {
+    for (const { transform, parameterSchema, fieldPath } of rules) {
+      if (parameterSchema && !field.parameter) continue;
+      if (!matchesField(fieldPath, field) || !inFieldScope({ schemaName: transform.schemaName }, field)) continue;
 
-        // Remove specified items from this property/parameter
-        if (transform.removeItems) {
-          for (const itemToRemove of transform.removeItems) {
-            if (obj.hasOwnProperty(itemToRemove)) {
-              delete obj[itemToRemove];
-              transformedCount++;
-            }
-          }
-        }
+      const target = parameterSchema ? field.schema : (field.parameter ?? field.schema);
+      const label = parameterSchema ? `${fieldPositionLabel(field)}.schema` : fieldPositionLabel(field);
+      countMatch(matches, transform, label, transform.fieldName, transform.schemaName);
 
-        // Add specified items to this property/parameter
-        if (transform.addItems) {
-          for (const [key, value] of Object.entries(transform.addItems)) {
-            obj[key] = value;
-            transformedCount++;
-          }
+      // Remove specified items from this property/parameter
+      for (const itemToRemove of transform.removeItems ?? []) {
+        if (Object.hasOwn(target, itemToRemove)) {
+          delete target[itemToRemove];
+          transformedCount++;
         }
       }
-    }
 
-    // Recursively process nested objects
-    for (const [key, value] of Object.entries(obj)) {
-      if (value && typeof value === "object") {
-        processObject(value, [...currentPath, key], obj);
+      // Add specified items to this property/parameter
+      for (const [key, value] of Object.entries(transform.addItems ?? {})) {
+        target[key] = value;
+        transformedCount++;
       }
     }
-  };
+  });
 
-  processObject(spec);
   return transformedCount;
 }
 
@@ -456,24 +363,30 @@ function transformProperties(spec: OpenAPISpec, transforms: FieldTransform[]): n
  * This function adds or removes specified fields from the 'required' array of OpenAPI schemas.
  * If the required array becomes empty after removals, it's removed entirely.
  */
-function transformRequiredFields(spec: OpenAPISpec, transforms: RequiredFieldTransform[]): number {
+export function transformRequiredFields(
+  spec: OpenAPISpec,
+  transforms: RequiredFieldTransform[],
+  matches: Map<RequiredFieldTransform, number> = new Map(),
+): number {
   let transformedCount = 0;
 
   forEachSchema(spec, (schemaName, schema) => {
     for (const transform of transforms) {
-      if (transform.schemaName !== schemaName) continue;
+      if (!matchesSelector(transform.schemaName, schemaName)) continue;
 
-      const fieldNames = Array.isArray(transform.fieldName) ? transform.fieldName : [transform.fieldName];
+      const selectors = Array.isArray(transform.fieldName) ? transform.fieldName : [transform.fieldName];
+      const fieldNames = selectors.flatMap((selector) => selectKeys(selector, schema.properties));
 
       for (const fieldName of fieldNames) {
-        if (!schema.properties?.[fieldName]) continue;
+        if (!schema.properties[fieldName]) continue;
 
-        if (!schema.required) schema.required = [];
+        countMatch(matches, transform, fieldLabel(fieldName, schemaName), transform.schemaName, transform.fieldName);
+        const required: string[] = schema.required ?? [];
 
-        if (transform.makeRequired && !schema.required.includes(fieldName)) {
-          schema.required.push(fieldName);
+        if (transform.makeRequired && !required.includes(fieldName)) {
+          schema.required = [...required, fieldName];
           transformedCount++;
-        } else if (!transform.makeRequired && schema.required.includes(fieldName)) {
+        } else if (!transform.makeRequired && required.includes(fieldName)) {
           schema.required = schema.required.filter((f: string) => f !== fieldName);
           if (schema.required.length === 0) {
             delete schema.required;
@@ -490,7 +403,12 @@ function transformRequiredFields(spec: OpenAPISpec, transforms: RequiredFieldTra
 /**
  * Enforce a single endpoint format (json or msgpack) by stripping the opposite one
  */
-function enforceEndpointFormat(spec: OpenAPISpec, endpoints: FilterEndpoint[], targetFormat: "json" | "msgpack"): number {
+export function enforceEndpointFormat(
+  spec: OpenAPISpec,
+  endpoints: FilterEndpoint[],
+  targetFormat: "json" | "msgpack",
+  matches: Map<FilterEndpoint, number> = new Map(),
+): number {
   let modifiedCount = 0;
 
   if (!spec.paths || !endpoints?.length) {
@@ -501,19 +419,20 @@ function enforceEndpointFormat(spec: OpenAPISpec, endpoints: FilterEndpoint[], t
   const otherContentType = targetFormat === "json" ? "application/msgpack" : "application/json";
 
   for (const endpoint of endpoints) {
-    const pathObj = spec.paths[endpoint.path];
-    if (!pathObj) {
+    const paths = selectKeys(endpoint.path, spec.paths);
+    if (paths.length === 0) {
       console.warn(`⚠️  Path ${endpoint.path} not found in spec`);
       continue;
     }
 
     const methods = endpoint.methods || ["get"];
 
-    for (const method of methods) {
-      const operation = pathObj[method];
+    for (const [path, method] of paths.flatMap((path) => methods.map((method) => [path, method]))) {
+      const operation = spec.paths[path][method];
       if (!operation) {
         continue;
       }
+      countMatch(matches, endpoint, `${method.toUpperCase()} ${path}`, endpoint.path);
 
       // Query parameter: format
       if (operation.parameters && Array.isArray(operation.parameters)) {
@@ -528,14 +447,14 @@ function enforceEndpointFormat(spec: OpenAPISpec, endpoints: FilterEndpoint[], t
                   schemaObj.enum = [targetFormat];
                   if (schemaObj.default !== targetFormat) schemaObj.default = targetFormat;
                   modifiedCount++;
-                  console.log(`ℹ️  Enforced ${targetFormat}-only for ${endpoint.path} (${method}) parameter`);
+                  console.log(`ℹ️  Enforced ${targetFormat}-only for ${path} (${method}) parameter`);
                 }
               }
             } else if (schemaObj.type === "string" && !schemaObj.enum) {
               schemaObj.enum = [targetFormat];
               schemaObj.default = targetFormat;
               modifiedCount++;
-              console.log(`ℹ️  Enforced ${targetFormat}-only for ${endpoint.path} (${method}) parameter`);
+              console.log(`ℹ️  Enforced ${targetFormat}-only for ${path} (${method}) parameter`);
             }
           }
         }
@@ -548,7 +467,7 @@ function enforceEndpointFormat(spec: OpenAPISpec, endpoints: FilterEndpoint[], t
         if (rb && rb.content && rb.content[otherContentType] && rb.content[targetContentType]) {
           delete rb.content[otherContentType];
           modifiedCount++;
-          console.log(`ℹ️  Removed ${otherContentType} request content-type for ${endpoint.path} (${method})`);
+          console.log(`ℹ️  Removed ${otherContentType} request content-type for ${path} (${method})`);
         }
       }
 
@@ -566,7 +485,7 @@ function enforceEndpointFormat(spec: OpenAPISpec, endpoints: FilterEndpoint[], t
             ) {
               delete responseTarget.content[otherContentType];
               modifiedCount++;
-              console.log(`ℹ️  Removed ${otherContentType} response content-type for ${endpoint.path} (${method}) - ${statusCode}`);
+              console.log(`ℹ️  Removed ${otherContentType} response content-type for ${path} (${method}) - ${statusCode}`);
             }
           }
         }
@@ -577,31 +496,10 @@ function enforceEndpointFormat(spec: OpenAPISpec, endpoints: FilterEndpoint[], t
   return modifiedCount;
 }
 
-/**
- * Helper function to resolve $ref references in the spec
- */
-function resolveRef(spec: OpenAPISpec, ref: string): any {
-  if (!ref.startsWith("#/")) {
-    return null;
-  }
-
-  const parts = ref.substring(2).split("/");
-  let current: any = spec;
-
-  for (const part of parts) {
-    current = current?.[part];
-    if (!current) {
-      return null;
-    }
-  }
-
-  return current;
-}
-
 /**
  * Create a new custom schema and add it to the OpenAPI spec
  */
-function createCustomSchema(spec: OpenAPISpec, schemaName: string, schemaDefinition: any): number {
+export function createCustomSchema(spec: OpenAPISpec, schemaName: string, schemaDefinition: any): number {
   let createdCount = 0;
 
   if (!spec.components) {
@@ -626,7 +524,11 @@ function createCustomSchema(spec: OpenAPISpec, schemaName: string, schemaDefinit
 /**
  * Update property references to use a custom schema
  */
-function linkSchemaToProperties(spec: OpenAPISpec, customSchemas: CustomSchema[]): number {
+export function linkSchemaToProperties(
+  spec: OpenAPISpec,
+  customSchemas: CustomSchema[],
+  matches: Map<CustomSchema, number> = new Map(),
+): number {
   let linkedCount = 0;
 
   for (const customSchema of customSchemas) {
@@ -635,12 +537,13 @@ function linkSchemaToProperties(spec: OpenAPISpec, customSchemas: CustomSchema[]
         for (const [propName, propDef] of Object.entries(obj.properties as Record<string, any>)) {
           if (
             customSchema.linkToProperties &&
-            customSchema.linkToProperties.includes(propName) &&
+            customSchema.linkToProperties.some((selector) => matchesSelector(selector, propName)) &&
             propDef &&
             typeof propDef === "object" &&
             !propDef.$ref
           ) {
             obj.properties[propName] = { $ref: `#/components/schemas/${customSchema.name}` };
+            countMatch(matches, customSchema, propName, customSchema.linkToProperties);
             linkedCount++;
           }
         }
@@ -654,13 +557,18 @@ function linkSchemaToProperties(spec: OpenAPISpec, customSchemas: CustomSchema[]
 /**
  * Add vendor extensions to specific schemas
  */
-function addSchemaVendorExtensions(spec: OpenAPISpec, schemaExtensions: { schemaName: string; extension: string; value: any }[]): number {
+export function addSchemaVendorExtensions(
+  spec: OpenAPISpec,
+  schemaExtensions: SchemaVendorExtension[],
+  matches: Map<SchemaVendorExtension, number> = new Map(),
+): number {
   let addedCount = 0;
 
   forEachSchema(spec, (schemaName, schema) => {
     for (const ext of schemaExtensions) {
-      if (ext.schemaName === schemaName) {
+      if (matchesSelector(ext.schemaName, schemaName)) {
         schema[ext.extension] = ext.value;
+        countMatch(matches, ext, schemaName, ext.schemaName);
         addedCount++;
       }
     }
@@ -673,17 +581,23 @@ function addSchemaVendorExtensions(spec: OpenAPISpec, schemaExtensions: { schema
  * Rename component schemas and update all $ref usages according to configuration.
  * Adds x-algokit-original-name metadata for traceability.
  */
-function renameSchemas(spec: OpenAPISpec, renames: SchemaRename[]): number {
+export function renameSchemas(spec: OpenAPISpec, renames: SchemaRename[], matches: Map<SchemaRename, number> = new Map()): number {
   if (!spec.components?.schemas) return 0;
   let renamedCount = 0;
   const refUpdates: Record<string, string> = {};
-  const renameMap = new Map(renames.map((r) => [r.from, r.to]));
   const newSchemas: Record<string, any> = {};
 
-  // Build new schemas object with renames applied, preserving order
+  // Build new schemas object with renames applied, preserving order. Exact renames take precedence over patterns.
+  const exact = new Map(renames.filter((r) => !isPattern(r.from)).map((r) => [r.from, r]));
+  const patterns = renames.filter((r) => isPattern(r.from));
   for (const [name, schema] of Object.entries(spec.components.schemas)) {
-    const newName = renameMap.get(name);
-    if (newName) {
+    const rename = exact.get(name) ?? patterns.find((r) => matchesSelector(r.from, name));
+    const newName = rename && renameMatch(rename.from, name, rename.to);
+    if (rename && newName) {
+      if (newSchemas[newName]) {
+        throw new Error(`Schema rename ${rename.from} → ${rename.to} renames ${name} to ${newName}, which already exists`);
+      }
+      countMatch(matches, rename, `${name} → ${newName}`, rename.from);
       schema["x-algokit-original-name"] = name;
       if (schema.description && typeof schema.description === "string") {
         schema.description = schema.description.replace(new RegExp(name, "g"), newName).replace(/\nfriendly:.+$/, "");
@@ -707,12 +621,17 @@ function renameSchemas(spec: OpenAPISpec, renames: SchemaRename[]): number {
 /**
  * Rename fields within schemas (actual field name changes, not just metadata)
  */
-function renameSchemaFields(spec: OpenAPISpec, schemaFieldRenames: SchemaFieldRename[]): number {
+export function renameSchemaFields(
+  spec: OpenAPISpec,
+  schemaFieldRenames: SchemaFieldRename[],
+  matches: Map<SchemaFieldRename, number> = new Map(),
+): number {
   let renamedCount = 0;
 
   forEachSchema(spec, (schemaName, schema) => {
-    const config = schemaFieldRenames.find((c) => c.schemaName === schemaName);
+    const config = schemaFieldRenames.find((c) => matchesSelector(c.schemaName, schemaName));
     if (!config || !schema.properties) return;
+    countMatch(matches, config, schemaName, config.schemaName);
 
     for (const rename of config.fieldRenames) {
       if (schema.properties[rename.from]) {
@@ -734,13 +653,14 @@ function renameSchemaFields(spec: OpenAPISpec, schemaFieldRenames: SchemaFieldRe
 /**
  * Remove specified fields from all schemas in the spec
  */
-function removeSchemaFields(spec: OpenAPISpec, fieldsToRemove: string[]): number {
+export function removeSchemaFields(spec: OpenAPISpec, fieldsToRemove: string[], matches: Map<string, number> = new Map()): number {
   let removedCount = 0;
 
-  forEachSchema(spec, (_schemaName, schema) => {
+  forEachSchema(spec, (schemaName, schema) => {
     if (!schema.properties) return;
-    for (const field of fieldsToRemove) {
-      if (schema.properties[field]) {
+    for (const selector of fieldsToRemove) {
+      for (const field of selectKeys(selector, schema.properties)) {
+        if (!schema.properties[field]) continue;
         delete schema.properties[field];
         if (schema.required && Array.isArray(schema.required)) {
           schema.required = schema.required.filter((f: string) => f !== field);
@@ -748,6 +668,7 @@ function removeSchemaFields(spec: OpenAPISpec, fieldsToRemove: string[]): number
             delete schema.required;
           }
         }
+        countMatch(matches, selector, fieldLabel(field, schemaName), selector);
         removedCount++;
       }
     }
@@ -759,7 +680,7 @@ function removeSchemaFields(spec: OpenAPISpec, fieldsToRemove: string[]): number
 /**
  * Make all properties required in all schemas
  */
-function makeAllFieldsRequired(spec: OpenAPISpec): number {
+export function makeAllFieldsRequired(spec: OpenAPISpec): number {
   let addedCount = 0;
 
   forEachSchema(spec, (_schemaName, schema) => {
@@ -781,13 +702,18 @@ function makeAllFieldsRequired(spec: OpenAPISpec): number {
 /**
  * Transform endpoint tags by adding or removing tags from specific endpoints
  */
-function transformEndpointTags(spec: OpenAPISpec, transforms: EndpointTagTransform[]): number {
+export function transformEndpointTags(
+  spec: OpenAPISpec,
+  transforms: EndpointTagTransform[],
+  matches: Map<EndpointTagTransform, number> = new Map(),
+): number {
   let transformedCount = 0;
 
   forEachOperation(spec, (path, method, operation) => {
     for (const transform of transforms) {
-      if (transform.path !== path) continue;
+      if (!matchesSelector(transform.path, path)) continue;
       if (transform.methods && !transform.methods.includes(method)) continue;
+      countMatch(matches, transform, `${method.toUpperCase()} ${path}`, transform.path);
 
       if (!operation.tags) operation.tags = [];
 
@@ -815,10 +741,15 @@ function transformEndpointTags(spec: OpenAPISpec, transforms: EndpointTagTransfo
 
 /**
  * Transform operationIds based on configuration rules.
- * Supports both pattern-based (stripPrefix/stripSuffix) and explicit (from/to) transforms.
+ * Supports both pattern-based (stripPrefix/stripSuffix) and explicit (from/to) transforms; `from` is a selector, so a
+ * regex rename can refer to its capture groups in `to`.
  * Processing order: explicit from/to renames first, then stripPrefix, then stripSuffix.
  */
-function transformOperationIds(spec: OpenAPISpec, transforms: OperationIdTransform[]): number {
+export function transformOperationIds(
+  spec: OpenAPISpec,
+  transforms: OperationIdTransform[],
+  matches: Map<OperationIdTransform, number> = new Map(),
+): number {
   let transformedCount = 0;
 
   // Separate transforms by type for ordered processing
@@ -831,8 +762,10 @@ function transformOperationIds(spec: OpenAPISpec, transforms: OperationIdTransfo
 
     // 1. Apply explicit from/to renames first (e.g., typo fixes)
     for (const transform of explicitTransforms) {
-      if (operation.operationId === transform.from) {
-        operation.operationId = transform.to;
+      if (matchesSelector(transform.from!, operation.operationId)) {
+        const from = operation.operationId;
+        operation.operationId = renameMatch(transform.from!, from, transform.to!);
+        countMatch(matches, transform, `${from} → ${operation.operationId}`, transform.from);
         transformedCount++;
         return; // Only apply first matching transform
       }
@@ -844,6 +777,7 @@ function transformOperationIds(spec: OpenAPISpec, transforms: OperationIdTransfo
         const newId = operation.operationId.slice(transform.stripPrefix.length);
         // Preserve PascalCase: ensure first char is uppercase
         operation.operationId = newId.charAt(0).toUpperCase() + newId.slice(1);
+        countMatch(matches, transform);
         transformedCount++;
         return; // Only apply first matching transform
       }
@@ -853,6 +787,7 @@ function transformOperationIds(spec: OpenAPISpec, transforms: OperationIdTransfo
     for (const transform of suffixTransforms) {
       if (transform.stripSuffix && operation.operationId.endsWith(transform.stripSuffix)) {
         operation.operationId = operation.operationId.slice(0, -transform.stripSuffix.length);
+        countMatch(matches, transform);
         transformedCount++;
         return; // Only apply first matching transform
       }
@@ -865,7 +800,7 @@ function transformOperationIds(spec: OpenAPISpec, transforms: OperationIdTransfo
 /**
  * Remove schemas that have no properties and update all references to them
  */
-function removeEmptySchemas(spec: OpenAPISpec): number {
+export function removeEmptySchemas(spec: OpenAPISpec): number {
   if (!spec.components?.schemas) return 0;
 
   const emptySchemas = new Set<string>();
@@ -934,68 +869,510 @@ function removeEmptySchemas(spec: OpenAPISpec): number {
   return emptySchemas.size;
 }
 
+/**
+ * Apply the jsonPatches entries of a pipeline stage, in config order
+ */
+function applyStageJsonPatches(spec: OpenAPISpec, config: SpecConfig, stage: PipelineStage): number {
+  let applied = 0;
+  (config.jsonPatches ?? []).forEach((patch, index) => {
+    if ((patch.stage ?? "transformed") !== stage) return;
+    const name = patch.description ? `JSON patch "${patch.description}"` : `jsonPatches[${index}]`;
+    applied += applyJsonPatch(spec, patch.operations, name);
+  });
+  return applied;
+}
+
+/**
+ * Replace every occurrence of each patch's `find` (exact text or slash-delimited regex) in order, counting matches
+ */
+export function applyTextPatches(content: string, patches: TextPatch[], matches: Map<TextPatch, number> = new Map()): string {
+  return patches.reduce((text, patch) => {
+    const regex = parseRegexLiteral(patch.find, "g", "text patch regex");
+    const count = regex ? [...text.matchAll(regex)].length : text.split(patch.find).length - 1;
+    matches.set(patch, (matches.get(patch) ?? 0) + count);
+    return regex ? text.replace(regex, patch.replace) : text.split(patch.find).join(patch.replace);
+  }, content);
+}
+
+/**
+ * Whether any jsonPatches entry is applied at a pipeline stage
+ */
+function hasJsonPatches(config: SpecConfig, stage: PipelineStage): boolean {
+  return !!config.jsonPatches?.some((patch) => (patch.stage ?? "transformed") === stage);
+}
+
+// ===== RULE DESCRIPTIONS =====
+
+function describeField(rule: { fieldName: string; schemaName?: string }): string {
+  return rule.schemaName ? `${rule.schemaName}.${rule.fieldName}` : rule.fieldName;
+}
+
+function describeScopedField(fieldName: string, scope: FieldScope): string {
+  const path = scope.path ? ` under ${scope.path}` : "";
+  const excluded = scope.excludedModels?.length ? ` (excluding ${scope.excludedModels.join(", ")})` : "";
+  return `${describeField({ fieldName, schemaName: scope.schemaName })}${path}${excluded}`;
+}
+
+function describeFieldRename(rule: FieldRename): string {
+  return `${describeScopedField(rule.from, rule)} → ${rule.to}`;
+}
+
+function describeRequiredFieldTransform(rule: RequiredFieldTransform): string {
+  const fields = Array.isArray(rule.fieldName) ? `{${rule.fieldName.join(", ")}}` : rule.fieldName;
+  return `${rule.schemaName}.${fields} ${rule.makeRequired ? "required" : "optional"}`;
+}
+
+function describeEndpoint(rule: { path: string; methods?: string[] }): string {
+  return rule.methods ? `${rule.methods.map((method) => method.toUpperCase()).join(", ")} ${rule.path}` : rule.path;
+}
+
+function describeOperationIdTransform(rule: OperationIdTransform): string {
+  if (rule.from) return `${rule.from} → ${rule.to}`;
+  return rule.stripPrefix ? `strip prefix ${rule.stripPrefix}` : `strip suffix ${rule.stripSuffix}`;
+}
+
+// ===== PASSES =====
+
+/**
+ * Default transformation pipeline, in order. Specs can reorder, disable or move passes with
+ * passOrder, disablePasses and insertPasses (see pipeline.ts).
+ */
+export const PASSES: Pass[] = [
+  {
+    name: "applyConvertedJsonPatches",
+    description: 'Apply jsonPatches with stage "converted" to the converted document',
+    applies: (config) => hasJsonPatches(config, "converted"),
+    run: (spec, { config }) => applyStageJsonPatches(spec, config, "converted"),
+    summarize: (n) => `Applied ${n} JSON patch operations`,
+  },
+  {
+    name: "renameSchemas",
+    description: "Rename component schemas and update $refs (e.g. strip APIVn prefixes from KMD)",
+    applies: (config) => !!config.schemaRenames?.length,
+    run: (spec, context) => {
+      const renames = context.config.schemaRenames!;
+      const matches = new RuleMatches<SchemaRename>();
+      const count = renameSchemas(spec, renames, matches);
+      context.recordRuleMatches("schemaRenames", renames, matches, (r) => `${r.from} → ${r.to}`);
+      return count;
+    },
+    summarize: (n) => `Renamed ${n} schemas`,
+  },
+  {
+    name: "renameSchemaFields",
+    description: "Rename fields within schemas (e.g. MultisigSig field names in KMD)",
+    applies: (config) => !!config.schemaFieldRenames?.length,
+    run: (spec, context) => {
+      const renames = context.config.schemaFieldRenames!;
+      const matches = new RuleMatches<SchemaFieldRename>();
+      const count = renameSchemaFields(spec, renames, matches);
+      context.recordRuleMatches("schemaFieldRenames", renames, matches, (r) => r.schemaName);
+      return count;
+    },
+    summarize: (n) => `Renamed ${n} fields in schemas`,
+  },
+  {
+    name: "removeSchemaFields",
+    description: "Remove configured fields from all schemas (KMD error/message cleanup)",
+    applies: (config) => !!config.removeSchemaFields?.length,
+    run: (spec, context) => {
+      const fields = context.config.removeSchemaFields!;
+      const matches = new RuleMatches<string>();
+      const count = removeSchemaFields(spec, fields, matches);
+      context.recordRuleMatches("removeSchemaFields", fields, matches, (field) => field);
+      return count;
+    },
+    summarize: (n) => `Removed ${n} fields from schemas`,
+  },
+  {
+    name: "removeEmptySchemas",
+    description: "Remove schemas left without properties after removeSchemaFields",
+    applies: (config) => !!config.removeSchemaFields?.length,
+    run: (spec) => removeEmptySchemas(spec),
+    summarize: (n) => `Removed ${n} empty schemas`,
+  },
+  {
+    name: "fixPydanticRecursionError",
+    description: "Remove format: byte from AvmValue.bytes",
+    run: (spec) => fixPydanticRecursionError(spec),
+    summarize: (n) => `Fixed ${n} pydantic recursion errors`,
+  },
+  {
+    name: "fixFieldNaming",
+    description: "Add x-algokit-field-rename from fieldRenames",
+    applies: (config) => !!config.fieldRenames?.length,
+    run: (spec, context) => {
+      const renames = context.config.fieldRenames!;
+      const matches = new RuleMatches<FieldRename>();
+      const count = fixFieldNaming(spec, renames, matches);
+      context.recordRuleMatches("fieldRenames", renames, matches, describeFieldRename);
+      return count;
+    },
+    summarize: (n) => `Added field rename extensions to ${n} properties`,
+  },
+  {
+    name: "fixBigInt",
+    description: "Add x-algokit-bigint to integer fields listed in bigIntFields",
+    applies: (config) => !!config.bigIntFields?.length,
+    run: (spec, context) => {
+      const fields = context.config.bigIntFields!;
+      const matches = new RuleMatches<BigIntField>();
+      const count = fixBigInt(spec, fields, matches);
+      context.recordRuleMatches("bigIntFields", fields, matches, (f) => describeScopedField(f.fieldName, f));
+      return count;
+    },
+    summarize: (n) => `Added x-algokit-bigint to ${n} properties`,
+  },
+  {
+    name: "fixFixedLengthByteFields",
+    description: "Add x-algokit-byte-length to fixed-length byte fields",
+    applies: (config) => !!config.fixedLengthByteFields?.length,
+    run: (spec, context) => {
+      const fields = context.config.fixedLengthByteFields!;
+      const matches = new RuleMatches<FixedLengthByteField>();
+      const count = fixFixedLengthByteFields(spec, fields, matches);
+      context.recordRuleMatches("fixedLengthByteFields", fields, matches, (f) => describeScopedField(f.fieldName, f));
+      return count;
+    },
+    summarize: (n) => `Added x-algokit-byte-length to ${n} byte fields`,
+  },
+  {
+    name: "makeAllFieldsRequired",
+    description: "Make every schema property required",
+    applies: (config) => !!config.makeAllFieldsRequired,
+    run: (spec) => makeAllFieldsRequired(spec),
+    summarize: (n) => `Made ${n} fields required across all schemas`,
+  },
+  {
+    name: "transformRequiredFields",
+    description: "Add or remove fields from schema required arrays",
+    applies: (config) => !!config.requiredFieldTransforms?.length,
+    run: (spec, context) => {
+      const transforms = context.config.requiredFieldTransforms!;
+      const matches = new RuleMatches<RequiredFieldTransform>();
+      const count = transformRequiredFields(spec, transforms, matches);
+      context.recordRuleMatches("requiredFieldTransforms", transforms, matches, describeRequiredFieldTransform);
+      return count;
+    },
+    summarize: (n) => `Transformed ${n} required field states`,
+  },
+  {
+    name: "transformProperties",
+    description: "Add or remove keys on configured properties and parameters",
+    applies: (config) => !!config.fieldTransforms?.length,
+    run: (spec, context) => {
+      const transforms = context.config.fieldTransforms!;
+      const matches = new RuleMatches<FieldTransform>();
+      const count = transformProperties(spec, transforms, matches);
+      context.recordRuleMatches("fieldTransforms", transforms, matches, describeField);
+      return count;
+    },
+    summarize: (n) => `Applied ${n} property transformations (additions/removals)`,
+  },
+  {
+    name: "transformVendorExtensions",
+    description: "Map upstream vendor extensions to x-algokit-* extensions",
+    applies: (config) => !!config.vendorExtensionTransforms?.length,
+    run: (spec, context) => {
+      const transforms = context.config.vendorExtensionTransforms!;
+      const transformCounts = transformVendorExtensions(spec, transforms);
+      for (const [countKey, count] of Object.entries(transformCounts)) {
+        const [sourceProperty, sourceValue] = countKey.split(":");
+        const transform = transforms.find((t) => t.sourceProperty === sourceProperty && t.sourceValue === sourceValue);
+        if (transform) {
+          console.log(`ℹ️  Transformed ${count} ${sourceProperty}: ${sourceValue} to ${transform.targetProperty}`);
+        }
+      }
+      const matches = new Map(transforms.map((t) => [t, transformCounts[`${t.sourceProperty}:${t.sourceValue}`]]));
+      context.recordRuleMatches("vendorExtensionTransforms", transforms, matches, (t) => `${t.sourceProperty}: ${t.sourceValue}`);
+      return Object.values(transformCounts).reduce((sum, count) => sum + count, 0);
+    },
+    summarize: (n) => `Applied ${n} vendor extension transformations`,
+  },
+  {
+    name: "inferBigInt",
+    description: "Report integer fields that look 64-bit but are not marked x-algokit-bigint, or mark them",
+    run: (spec, context) => {
+      const { bigIntInference = {}, bigIntFields = [] } = context.config;
+      // Fields a bigIntFields rule deliberately excludes are not candidates either
+      const excluded = bigIntFields.flatMap((f) =>
+        (f.excludedModels ?? []).map((model) => ({ fieldName: f.fieldName, schemaName: model })),
+      );
+      const candidates: BigIntCandidate[] = [];
+      const count = inferBigInt(
+        spec,
+        { ...bigIntInference, ignoreFields: [...(bigIntInference.ignoreFields ?? []), ...excluded] },
+        candidates,
+      );
+      candidates.forEach((candidate) => context.recordBigIntCandidate(candidate));
+      return count;
+    },
+    summarize: (n) => `Found ${n} unmarked 64-bit integer candidates`,
+  },
+  {
+    name: "transformOperationIds",
+    description: "Rename operationIds and strip prefixes/suffixes",
+    applies: (config) => !!config.operationIdTransforms?.length,
+    run: (spec, context) => {
+      const transforms = context.config.operationIdTransforms!;
+      const matches = new RuleMatches<OperationIdTransform>();
+      const count = transformOperationIds(spec, transforms, matches);
+      context.recordRuleMatches("operationIdTransforms", transforms, matches, describeOperationIdTransform);
+      return count;
+    },
+    summarize: (n) => `Transformed ${n} operationIds`,
+  },
+  {
+    name: "enforceMsgpackOnlyEndpoints",
+    description: "Strip JSON from msgpack-only endpoints",
+    applies: (config) => !!config.msgpackOnlyEndpoints?.length,
+    run: (spec, context) => {
+      const endpoints = context.config.msgpackOnlyEndpoints!;
+      const matches = new RuleMatches<FilterEndpoint>();
+      const count = enforceEndpointFormat(spec, endpoints, "msgpack", matches);
+      context.recordRuleMatches("msgpackOnlyEndpoints", endpoints, matches, describeEndpoint);
+      return count;
+    },
+    summarize: (n) => `Enforced msgpack-only format for ${n} endpoint parameters/responses`,
+  },
+  {
+    name: "enforceJsonOnlyEndpoints",
+    description: "Strip msgpack from JSON-only endpoints",
+    applies: (config) => !!config.jsonOnlyEndpoints?.length,
+    run: (spec, context) => {
+      const endpoints = context.config.jsonOnlyEndpoints!;
+      const matches = new RuleMatches<FilterEndpoint>();
+      const count = enforceEndpointFormat(spec, endpoints, "json", matches);
+      context.recordRuleMatches("jsonOnlyEndpoints", endpoints, matches, describeEndpoint);
+      return count;
+    },
+    summarize: (n) => `Enforced json-only format for ${n} endpoint parameters/responses`,
+  },
+  {
+    name: "createCustomSchemas",
+    description: "Add the configured custom schemas",
+    applies: (config) => !!config.customSchemas?.length,
+    run: (spec, { config }) =>
+      config.customSchemas!.reduce((sum, customSchema) => sum + createCustomSchema(spec, customSchema.name, customSchema.schema), 0),
+    summarize: (n) => `Created ${n} custom schemas`,
+  },
+  {
+    name: "linkSchemaToProperties",
+    description: "Point properties listed in linkToProperties at their custom schema",
+    applies: (config) => !!config.customSchemas?.length,
+    run: (spec, context) => {
+      const customSchemas = context.config.customSchemas!.filter((customSchema) => customSchema.linkToProperties?.length);
+      const matches = new RuleMatches<CustomSchema>();
+      const count = linkSchemaToProperties(spec, customSchemas, matches);
+      context.recordRuleMatches("customSchemas", customSchemas, matches, (c) => `${c.name} ← ${c.linkToProperties!.join(", ")}`);
+      return count;
+    },
+    summarize: (n) => `Linked ${n} properties to custom schemas`,
+  },
+  {
+    name: "addSchemaVendorExtensions",
+    description: "Add vendor extensions to specific schemas",
+    applies: (config) => !!config.schemaVendorExtensions?.length,
+    run: (spec, context) => {
+      const extensions = context.config.schemaVendorExtensions!;
+      const matches = new RuleMatches<SchemaVendorExtension>();
+      const count = addSchemaVendorExtensions(spec, extensions, matches);
+      context.recordRuleMatches("schemaVendorExtensions", extensions, matches, (e) => `${e.schemaName} ${e.extension}`);
+      return count;
+    },
+    summarize: (n) => `Added ${n} vendor extensions to schemas`,
+  },
+  {
+    name: "transformEndpointTags",
+    description: "Add or remove tags on endpoints",
+    applies: (config) => !!config.endpointTagTransforms?.length,
+    run: (spec, context) => {
+      const transforms = context.config.endpointTagTransforms!;
+      const matches = new RuleMatches<EndpointTagTransform>();
+      const count = transformEndpointTags(spec, transforms, matches);
+      context.recordRuleMatches("endpointTagTransforms", transforms, matches, describeEndpoint);
+      return count;
+    },
+    summarize: (n) => `Applied ${n} endpoint tag transformations`,
+  },
+  {
+    name: "applyDescriptionOverrides",
+    description: "Set descriptions and summaries addressed by JSON Pointer",
+    applies: (config) => !!config.descriptionOverrides?.length,
+    run: (spec, context) => {
+      const overrides = context.config.descriptionOverrides!;
+      const matches = new Map<DescriptionOverride, number>();
+      const count = applyDescriptionOverrides(spec, overrides, matches);
+      context.recordRuleMatches("descriptionOverrides", overrides, matches, (o) => o.pointer);
+      return count;
+    },
+    summarize: (n) => `Applied ${n} description and summary overrides`,
+  },
+  {
+    name: "fixMissingDescriptions",
+    description: "Generate the response descriptions OpenAPI requires, flagging each in the report",
+    run: (spec, context) => {
+      const fallbacks: GeneratedFallback[] = [];
+      const count = fixMissingDescriptions(spec, fallbacks);
+      fallbacks.forEach((fallback) => context.recordFallback(fallback));
+      return count;
+    },
+    summarize: (n) => `Generated ${n} missing descriptions`,
+  },
+  {
+    name: "applyJsonPatches",
+    description: 'Apply jsonPatches (stage "transformed", the default) after the built-in passes',
+    applies: (config) => hasJsonPatches(config, "transformed"),
+    run: (spec, { config }) => applyStageJsonPatches(spec, config, "transformed"),
+    summarize: (n) => `Applied ${n} JSON patch operations`,
+  },
+];
+
 // ===== MAIN PROCESSOR =====
 
 export class OpenAPIProcessor {
-  constructor(private config: ProcessingConfig) {}
+  readonly audit: TransformAudit;
+  // sha256 of the raw source document, set once it has been fetched
+  sourceSha256?: string;
+  // Document as converted to OpenAPI 3.0, before any converted-stage change; the baseline of exported overlays
+  convertedSpec?: OpenAPISpec;
+  // Passes that changed the Swagger 2.0 document before conversion, so are already part of convertedSpec
+  sourcePasses: string[] = [];
+
+  constructor(private config: ProcessingConfig) {
+    this.audit = new TransformAudit(basename(config.outputPath), config.sourceUrl);
+  }
+
+  /**
+   * Run a single transformation pass, recording every JSON Pointer it touched in the audit
+   */
+  private runPass(spec: OpenAPISpec, name: string, pass: () => number, summarize: (count: number) => string): number {
+    const before = structuredClone(spec);
+    const count = pass();
+    const summary = summarize(count);
+    console.log(`ℹ️  ${summary}`);
+    this.audit.record({ name, summary, count, changes: diffJson(before, spec) });
+    return count;
+  }
 
   /**
-   * Apply typo fixes to raw JSON content
+   * Record how often each rule of a config group matched, warning about rules that matched nothing and listing what
+   * glob and regex rules matched
    */
-  private patchTypos(content: string): string {
-    const patches = [
-      ["ana ccount", "an account"],
-      ["since eposh", "since epoch"],
-      ["* update\\n* update\\n* delete", "* update\\n* delete"],
-      ["APIV1POSTWalletRenameRequest is the", "The"],
-      ["APIV1POSTWalletRequest is the", "The"],
-      ["APIV1DELETEKeyRequest is the", "The"],
-      ["APIV1DELETEMultisigRequest is the", "The"],
-      ["APIV1POSTKeyExportRequest is the", "The"],
-      ["APIV1POSTMasterKeyExportRequest is the", "The"],
-      ["APIV1POSTMultisigExportRequest is the", "The"],
-      ["APIV1POSTKeyRequest is the", "The"],
-      ["APIV1POSTKeyImportRequest is the", "The"],
-      ["APIV1POSTMultisigImportRequest is the", "The"],
-      ["APIV1POSTWalletInitRequest is the", "The"],
-      ["APIV1POSTKeyListRequest is the", "The"],
-      ["APIV1POSTMultisigListRequest is the", "The"],
-      ["APIV1POSTWalletReleaseRequest is the", "The"],
-      ["APIV1POSTWalletRenameRequest is the", "The"],
-      ["APIV1POSTWalletRenewRequest is the", "The"],
-      ["APIV1POSTMultisigTransactionSignRequest is the", "The"],
-      ["APIV1POSTProgramSignRequest is the", "The"],
-      ["APIV1POSTTransactionSignRequest is the", "The"],
-      ["APIV1POSTWalletInfoRequest is the", "The"],
-      ["APIV1POSTMultisigProgramSignRequest is the", "The"],
-    ];
-
-    return patches.reduce((text, [find, replace]) => text.replaceAll(find, replace), content);
+  private recordRuleMatches<T>(group: string, rules: T[], matches: Map<T, number>, describe: (rule: T) => string): void {
+    const reports = rules.map((rule) => {
+      const matched = matches instanceof RuleMatches ? matches.matched.get(rule) : undefined;
+      return {
+        group,
+        rule: describe(rule),
+        matches: matches.get(rule) ?? 0,
+        ...(matched && { matched: [...matched] }),
+      };
+    });
+    for (const report of reports) {
+      if (report.matches === 0) {
+        console.warn(`⚠️  ${group} rule ${report.rule} matched nothing`);
+      } else if (report.matched) {
+        console.log(`ℹ️  ${group} rule ${report.rule} matched ${report.matched.join(", ")}`);
+      }
+    }
+    this.audit.recordRules(reports);
   }
 
   /**
-   * Fetch spec from URL or file
+   * Apply the overlays of a pipeline stage in config order, recording how many nodes each action targeted
+   */
+  private applyStageOverlays(spec: OpenAPISpec, overlays: LoadedOverlay[], stage: PipelineStage, name: string): void {
+    const staged = overlays.filter((overlay) => overlay.stage === stage);
+    if (staged.length === 0) return;
+
+    this.runPass(
+      spec,
+      name,
+      () => {
+        let changed = 0;
+        for (const { path, document } of staged) {
+          const matches = new Map<OverlayAction, number>();
+          applyOverlay(spec, document, `Overlay ${path}`).forEach((count, index) => {
+            matches.set(document.actions[index], count);
+            changed += count;
+          });
+          this.recordRuleMatches("overlays", document.actions, matches, (action) => `${basename(path)} ${action.target}`);
+        }
+        return changed;
+      },
+      (n) => `Applied overlay actions to ${n} nodes`,
+    );
+  }
+
+  /**
+   * Record the sha256 of the raw source document and check it against the expected hash, if any
+   */
+  private verifySource(rawContent: string): void {
+    this.sourceSha256 = sha256(rawContent);
+    const expected = this.config.sourceSha256;
+    if (expected && expected !== this.sourceSha256) {
+      throw new Error(
+        `Source ${this.config.sourceUrl} does not match the locked sha256 (expected ${expected}, got ${this.sourceSha256}). ` +
+          "Run the update command to refresh specs/upstream.lock.json.",
+      );
+    }
+  }
+
+  /**
+   * Fetch a raw document, going through the upstream cache when one is configured
+   */
+  private async fetchRaw(url: string): Promise<string> {
+    const { cacheDir, offline, sourceSha256 } = this.config;
+    if (offline && !cacheDir) {
+      throw new Error("Offline mode requires a cache directory");
+    }
+    const cache = cacheDir ? new UpstreamCache(cacheDir, offline) : undefined;
+
+    const cached = await cache?.getDocument(url, sourceSha256);
+    if (cached !== undefined) {
+      console.log(`ℹ️  Using cached ${url}`);
+      return cached;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch spec: ${response.status} ${response.statusText}`);
+    }
+    const rawContent = await response.text();
+    await cache?.putDocument(url, rawContent);
+    return rawContent;
+  }
+
+  /**
+   * Apply the spec's text patches to the raw source, recording how often each matched
+   */
+  private patchSource(content: string): string {
+    const patches = this.config.textPatches ?? [];
+    if (patches.length === 0) return content;
+
+    const matches = new Map<TextPatch, number>();
+    const patched = applyTextPatches(content, patches, matches);
+    this.recordRuleMatches("textPatches", patches, matches, (patch) => `${patch.find} → ${patch.replace}`);
+    return patched;
+  }
+
+  /**
+   * Fetch spec from URL or file. Text patches apply to both before the document is parsed.
    */
   private async fetchSpec(): Promise<OpenAPISpec> {
     console.log(`ℹ️  Fetching OpenAPI spec from ${this.config.sourceUrl}...`);
 
     // Check if it's a file path or URL
-    if (this.config.sourceUrl.startsWith("http://") || this.config.sourceUrl.startsWith("https://")) {
-      const response = await fetch(this.config.sourceUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch spec: ${response.status} ${response.statusText}`);
-      }
-      const rawContent = await response.text();
-      const patchedContent = this.patchTypos(rawContent);
-      const spec = JSON.parse(patchedContent);
-      console.log("✅ Successfully fetched OpenAPI specification");
-      return spec;
-    } else {
-      // Local file
-      const spec = await SwaggerParser.parse(this.config.sourceUrl);
-      console.log("✅ Successfully loaded OpenAPI specification from file");
-      return spec as OpenAPISpec;
-    }
+    const { sourceUrl } = this.config;
+    const remote = sourceUrl.startsWith("http://") || sourceUrl.startsWith("https://");
+    const rawContent = remote ? await this.fetchRaw(sourceUrl) : await readFile(sourceUrl, "utf8");
+    this.verifySource(rawContent);
+
+    const patchedContent = this.patchSource(rawContent);
+    const spec = /\.ya?ml$/.test(sourceUrl) ? parseYaml(patchedContent) : JSON.parse(patchedContent);
+    console.log(remote ? "✅ Successfully fetched OpenAPI specification" : "✅ Successfully loaded OpenAPI specification from file");
+    return spec;
   }
 
   /**
@@ -1007,8 +1384,25 @@ export class OpenAPIProcessor {
       return spec;
     }
 
-    const endpoint = this.config.converterEndpoint || "https://converter.swagger.io/api/convert";
+    if (this.config.converter !== "local") {
+      return this.convertRemotely(spec);
+    }
+
     console.log("ℹ️  Converting Swagger 2.0 to OpenAPI 3.0...");
+    const converted = convertSwagger2ToOpenAPI3(spec as OAS2Spec);
+    console.log("✅ Successfully converted to OpenAPI 3.0");
+    return converted;
+  }
+
+  /**
+   * Convert Swagger 2.0 to OpenAPI 3.0 using the hosted swagger converter service
+   */
+  private async convertRemotely(spec: OpenAPISpec): Promise<OpenAPISpec> {
+    if (this.config.offline) {
+      throw new Error("Offline mode cannot use the hosted converter: pass --converter local");
+    }
+    const endpoint = this.config.converterEndpoint || "https://converter.swagger.io/api/convert";
+    console.log(`ℹ️  Converting Swagger 2.0 to OpenAPI 3.0 via ${endpoint}...`);
 
     const response = await fetch(endpoint, {
       method: "POST",
@@ -1029,177 +1423,173 @@ export class OpenAPIProcessor {
   }
 
   /**
-   * Save spec to file
+   * Serialize spec exactly as it is written to the output file of the given format
    */
-  private async saveSpec(spec: OpenAPISpec): Promise<void> {
-    const indent = this.config.indent || 2;
-    const content = JSON.stringify(spec, null, indent);
-
-    await writeFile(this.config.outputPath, content, "utf8");
-    console.log(`✅ Specification saved to ${this.config.outputPath}`);
+  formatSpec(spec: OpenAPISpec, format: OutputFormat = "json"): string {
+    const { trailingNewline } = resolveCanonicalOrdering(this.config.canonicalize);
+    return formatSpec(spec, format, this.config.indent || 2, trailingNewline);
   }
 
   /**
-   * Process the OpenAPI specification
+   * Every file the spec is written to, one per configured output format
    */
-  async process(): Promise<void> {
-    try {
-      console.log("ℹ️  Starting OpenAPI processing...");
-
-      // Fetch and parse the spec
-      let spec = await this.fetchSpec();
-
-      // Pre-process OAS2 to prevent swagger converter from inlining response schemas
-      extractInlineSchemas(spec as OAS2Spec);
-
-      // Convert to OpenAPI 3.0 if needed
-      spec = await this.convertToOpenAPI3(spec);
-
-      // Validate the spec
-      console.log("ℹ️  Validating OpenAPI specification...");
+  outputs(): { format: OutputFormat; path: string }[] {
+    return outputPaths(this.config.outputPath, this.config.outputFormats);
+  }
 
-      // Apply transformations
-      console.log("ℹ️  Applying transformations...");
-      // Rename schemas if configured (e.g., strip APIVn prefixes from KMD)
-      if (this.config.schemaRenames && this.config.schemaRenames.length > 0) {
-        const renamed = renameSchemas(spec, this.config.schemaRenames);
-        if (renamed > 0) {
-          console.log(`ℹ️  Renamed ${renamed} schemas`);
-        }
-      }
+  /**
+   * Where the TypeScript models are written, when the config asks for them
+   */
+  modelsPath(): string | undefined {
+    return this.config.models && modelPathFor(this.config.outputPath, this.config.models.format);
+  }
 
-      // Rename schema fields if configured (e.g., MultisigSig field names in KMD)
-      if (this.config.schemaFieldRenames && this.config.schemaFieldRenames.length > 0) {
-        const renamedCount = renameSchemaFields(spec, this.config.schemaFieldRenames);
-        console.log(`ℹ️  Renamed ${renamedCount} fields in schemas`);
-      }
+  /**
+   * Render the TypeScript models of a processed spec as configured in `models`
+   */
+  renderModels(spec: OpenAPISpec): RenderedModels {
+    return renderModels(spec, this.config.models);
+  }
 
-      // Remove specified schema fields if configured (KMD error/message cleanup)
-      if (this.config.removeSchemaFields && this.config.removeSchemaFields.length > 0) {
-        const removedCount = removeSchemaFields(spec, this.config.removeSchemaFields);
-        console.log(`ℹ️  Removed ${removedCount} fields from schemas`);
+  /**
+   * Save spec to a file per output format
+   */
+  private async saveSpec(spec: OpenAPISpec): Promise<void> {
+    for (const { format, path } of this.outputs()) {
+      await writeFile(path, this.formatSpec(spec, format), "utf8");
+      console.log(`✅ Specification saved to ${path}`);
+    }
+  }
 
-        // After removing properties, check for and remove schemas that now have no properties
-        const removedSchemas = removeEmptySchemas(spec);
-        if (removedSchemas > 0) {
-          console.log(`ℹ️  Removed ${removedSchemas} empty schemas`);
+  /**
+   * Fetch, convert, transform and validate the specification without writing it
+   */
+  async generate(): Promise<OpenAPISpec> {
+    const plugins = await loadPlugins(this.config.plugins ?? []);
+    const passes = buildPassRegistry(PASSES, plugins);
+    const overlays = await loadOverlays(this.config.overlays ?? []);
+    const context: PassContext = {
+      config: this.config,
+      recordRuleMatches: (group, rules, matches, describe) => this.recordRuleMatches(group, rules, matches, describe),
+      recordFallback: (fallback) => {
+        console.warn(
+          `⚠️  Generated ${fallback.pointer}: ${JSON.stringify(fallback.value)} (add a descriptionOverrides entry to replace it)`,
+        );
+        this.audit.recordFallback(fallback);
+      },
+      recordBigIntCandidate: (candidate) => {
+        if (!candidate.marked) {
+          console.warn(`⚠️  ${candidate.pointer} looks like a 64-bit integer (${candidate.evidence}) but is not marked x-algokit-bigint`);
         }
-      }
-
-      // Fix missing descriptions
-      const descriptionCount = fixMissingDescriptions(spec);
-      console.log(`ℹ️  Fixed ${descriptionCount} missing descriptions`);
-
-      // Fix pydantic recursion error
-      const pydanticCount = fixPydanticRecursionError(spec);
-      console.log(`ℹ️  Fixed ${pydanticCount} pydantic recursion errors`);
-
-      // Fix field naming
-      const fieldNamingCount = fixFieldNaming(spec);
-      console.log(`ℹ️  Added field rename extensions to ${fieldNamingCount} properties`);
-
-      // Fix bigint properties
-      const bigIntCount = fixBigInt(spec);
-      console.log(`ℹ️  Added x-algokit-bigint to ${bigIntCount} properties`);
-
-      // Fix fixed-length byte array fields
-      const fixedByteFields = this.config.fixedLengthByteFields ?? FIXED_LENGTH_BYTE_FIELDS;
-      if (fixedByteFields.length > 0) {
-        const fixedByteCount = fixFixedLengthByteFields(spec, fixedByteFields);
-        console.log(`ℹ️  Added x-algokit-byte-length to ${fixedByteCount} byte fields`);
-      }
-
-      // Make all fields required if configured
-      if (this.config.makeAllFieldsRequired) {
-        const madeRequiredCount = makeAllFieldsRequired(spec);
-        console.log(`ℹ️  Made ${madeRequiredCount} fields required across all schemas`);
-      }
+        this.audit.recordBigIntCandidate(candidate);
+      },
+    };
 
-      // Transform required fields if configured
-      let transformedFieldsCount = 0;
-      if (this.config.requiredFieldTransforms && this.config.requiredFieldTransforms.length > 0) {
-        transformedFieldsCount = transformRequiredFields(spec, this.config.requiredFieldTransforms);
-        console.log(`ℹ️  Transformed ${transformedFieldsCount} required field states`);
-      }
+    // Fetch and parse the spec
+    let spec = await this.fetchSpec();
 
-      // Transform properties if configured
-      let transformedPropertiesCount = 0;
-      if (this.config.fieldTransforms && this.config.fieldTransforms.length > 0) {
-        transformedPropertiesCount = transformProperties(spec, this.config.fieldTransforms);
-        console.log(`ℹ️  Applied ${transformedPropertiesCount} property transformations (additions/removals)`);
-      }
+    // Plugin passes and JSON patches hooked into the source stage see the Swagger 2.0 document
+    for (const pass of passes.source) {
+      if (pass.applies && !pass.applies(this.config)) continue;
+      this.runPass(spec, pass.name, () => pass.run(spec, context), pass.summarize);
+    }
+    if (hasJsonPatches(this.config, "source")) {
+      this.runPass(
+        spec,
+        "applySourceJsonPatches",
+        () => applyStageJsonPatches(spec, this.config, "source"),
+        (n) => `Applied ${n} JSON patch operations`,
+      );
+    }
+    this.applyStageOverlays(spec, overlays, "source", "applySourceOverlays");
+    this.sourcePasses = this.audit
+      .toJSON()
+      .passes.filter((pass) => pass.changes.length > 0)
+      .map((pass) => pass.name);
+
+    // Pre-process OAS2 to prevent swagger converter from inlining response schemas
+    extractInlineSchemas(spec as OAS2Spec);
+
+    // Convert to OpenAPI 3.0 if needed
+    spec = await this.convertToOpenAPI3(spec);
+    this.convertedSpec = structuredClone(spec);
+
+    // Apply transformations, with overlays applied around the built-in passes
+    console.log("ℹ️  Applying transformations...");
+    this.applyStageOverlays(spec, overlays, "converted", "applyConvertedOverlays");
+    for (const pass of resolvePipeline(passes.pipeline, this.config)) {
+      if (pass.applies && !pass.applies(this.config)) continue;
+      this.runPass(spec, pass.name, () => pass.run(spec, context), pass.summarize);
+    }
+    this.applyStageOverlays(spec, overlays, "transformed", "applyOverlays");
+
+    // Upgrade to OpenAPI 3.1 after every 3.0 transform has run
+    if (this.config.openapiVersion === "3.1") {
+      this.runPass(
+        spec,
+        "upgradeToOpenAPI31",
+        () => upgradeToOpenAPI31(spec),
+        (n) => `Applied ${n} OpenAPI 3.1 upgrades`,
+      );
+    }
 
-      // Transform vendor extensions if configured
-      if (this.config.vendorExtensionTransforms && this.config.vendorExtensionTransforms.length > 0) {
-        const transformCounts = transformVendorExtensions(spec, this.config.vendorExtensionTransforms);
-
-        for (const [countKey, count] of Object.entries(transformCounts)) {
-          const [sourceProperty, sourceValue] = countKey.split(":");
-          const transform = this.config.vendorExtensionTransforms.find(
-            (t) => t.sourceProperty === sourceProperty && t.sourceValue === sourceValue,
-          );
-          if (transform) {
-            console.log(`ℹ️  Transformed ${count} ${sourceProperty}: ${sourceValue} to ${transform.targetProperty}`);
-          }
-        }
-      }
+    // Put the result into canonical order so that upstream reorderings don't show up in the output
+    const ordering = resolveCanonicalOrdering(this.config.canonicalize);
+    if (ordering.keyOrder || ordering.sortPaths || ordering.sortSchemas || ordering.sortRequired) {
+      this.runPass(
+        spec,
+        "canonicalize",
+        () => canonicalizeSpec(spec, ordering),
+        (n) => `Canonicalized the order of ${n} objects and arrays`,
+      );
+    }
 
-      // Transform operationIds if configured
-      if (this.config.operationIdTransforms && this.config.operationIdTransforms.length > 0) {
-        const opIdCount = transformOperationIds(spec, this.config.operationIdTransforms);
-        console.log(`ℹ️  Transformed ${opIdCount} operationIds`);
+    // Validate the processed spec
+    if (this.config.openapiVersion === "3.1") {
+      const problems = validateOpenAPI31(spec);
+      if (problems.length > 0) {
+        throw new Error(`OpenAPI 3.1 validation failed:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
       }
+    } else {
+      await SwaggerParser.validate(JSON.parse(JSON.stringify(spec)));
+    }
+    console.log("✅ Specification is valid");
 
-      // Enforce msgpack-only endpoints if configured
-      if (this.config.msgpackOnlyEndpoints && this.config.msgpackOnlyEndpoints.length > 0) {
-        const msgpackCount = enforceEndpointFormat(spec, this.config.msgpackOnlyEndpoints, "msgpack");
-        console.log(`ℹ️  Enforced msgpack-only format for ${msgpackCount} endpoint parameters/responses`);
+    for (const validator of plugins.flatMap((plugin) => plugin.validators ?? [])) {
+      const problems = await validator.validate(spec, context);
+      if (problems.length > 0) {
+        throw new Error(`Validator ${validator.name} failed:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
       }
+      console.log(`✅ ${validator.name} passed`);
+    }
 
-      // Enforce json-only endpoints if configured
-      if (this.config.jsonOnlyEndpoints && this.config.jsonOnlyEndpoints.length > 0) {
-        const jsonCount = enforceEndpointFormat(spec, this.config.jsonOnlyEndpoints, "json");
-        console.log(`ℹ️  Enforced json-only format for ${jsonCount} endpoint parameters/responses`);
-      }
+    return spec;
+  }
 
-      // Create custom schemas if configured
-      if (this.config.customSchemas && this.config.customSchemas.length > 0) {
-        let customSchemaCount = 0;
-        for (const customSchema of this.config.customSchemas) {
-          customSchemaCount += createCustomSchema(spec, customSchema.name, customSchema.schema);
-        }
-        console.log(`ℹ️  Created ${customSchemaCount} custom schemas`);
+  /**
+   * Process the OpenAPI specification
+   */
+  async process(): Promise<void> {
+    try {
+      console.log("ℹ️  Starting OpenAPI processing...");
 
-        // Link properties to custom schemas
-        const linkedPropertiesCount = linkSchemaToProperties(spec, this.config.customSchemas);
-        if (linkedPropertiesCount > 0) {
-          console.log(`ℹ️  Linked ${linkedPropertiesCount} properties to custom schemas`);
-        }
-      }
+      const spec = await this.generate();
+      await this.saveSpec(spec);
 
-      // Add vendor extensions to specific schemas if configured
-      if (this.config.schemaVendorExtensions && this.config.schemaVendorExtensions.length > 0) {
-        const extensionCount = addSchemaVendorExtensions(spec, this.config.schemaVendorExtensions);
-        if (extensionCount > 0) {
-          console.log(`ℹ️  Added ${extensionCount} vendor extensions to schemas`);
-        }
+      const modelsPath = this.modelsPath();
+      if (modelsPath) {
+        const models = this.renderModels(spec);
+        await writeFile(modelsPath, models.content, "utf8");
+        console.log(`✅ ${models.models} models (${models.renamed} renamed fields) saved to ${modelsPath}`);
       }
 
-      // Transform endpoint tags if configured
-      if (this.config.endpointTagTransforms && this.config.endpointTagTransforms.length > 0) {
-        const tagCount = transformEndpointTags(spec, this.config.endpointTagTransforms);
-        console.log(`ℹ️  Applied ${tagCount} endpoint tag transformations`);
+      if (this.config.reportPath) {
+        await this.audit.save(this.config.reportPath);
       }
 
-      // Save the processed spec
-      await SwaggerParser.validate(JSON.parse(JSON.stringify(spec)));
-      console.log("✅ Specification is valid");
-
-      await this.saveSpec(spec);
-
       console.log("✅ OpenAPI processing completed successfully!");
       console.log(`📄 Source: ${this.config.sourceUrl}`);
-      console.log(`📄 Output: ${this.config.outputPath}`);
+      this.outputs().forEach(({ path }) => console.log(`📄 Output: ${path}`));
     } catch (error) {
       console.error(`❌ Processing failed: ${error instanceof Error ? error.message : error}`);
       throw error;
@@ -0,0 +1,169 @@
+import { writeFile } from "node:fs/promises";
+import type { JsonChange } from "./jsonDiff.js";
+
+// ===== TYPES =====
+
+export interface PassReport {
+  name: string; // Pass identifier, e.g. "fixBigInt"
+  summary: string; // Human readable outcome, e.g. "Added x-algokit-bigint to 118 properties"
+  count: number; // Count reported by the pass itself
+  changes: JsonChange[]; // JSON Pointers touched by the pass, with before/after values
+}
+
+export interface RuleReport {
+  group: string; // Config section the rule comes from, e.g. "fieldTransforms" or "bigIntFields"
+  rule: string; // What the rule selects, e.g. "Account.amount"
+  matches: number; // How many times the rule matched in this spec
+  matched?: string[]; // What a rule with glob or regex selectors matched, e.g. ["ApplicationStateSchema.num-uint"]
+}
+
+export interface GeneratedFallback {
+  pointer: string; // Where the value was generated, e.g. "/paths/~1v2~1status/get/responses/200/description"
+  value: string; // Generated value, e.g. "OK response from GetStatus"
+}
+
+export interface BigIntCandidate {
+  pointer: string; // Integer schema that looks 64-bit, e.g. "/components/schemas/StateProofTracking/properties/next-round"
+  evidence: string; // Why, e.g. "x-go-type basics.Round, name suffix -round"
+  marked: boolean; // Whether bigIntInference marked it with x-algokit-bigint
+}
+
+export interface TransformReport {
+  spec: string;
+  source: string;
+  passes: PassReport[];
+  rules: RuleReport[];
+  fallbacks: GeneratedFallback[]; // Required values upstream left out and no config supplied
+  bigIntCandidates: BigIntCandidate[]; // Integer fields that look 64-bit but no bigIntFields rule marked
+}
+
+// ===== AUDIT =====
+
+/**
+ * Collects the changes made by each transformation pass during a single processing run
+ */
+export class TransformAudit {
+  private passes: PassReport[] = [];
+  private rules: RuleReport[] = [];
+  private fallbacks: GeneratedFallback[] = [];
+  private bigIntCandidates: BigIntCandidate[] = [];
+
+  constructor(
+    private spec: string,
+    private source: string,
+  ) {}
+
+  record(pass: PassReport): void {
+    this.passes.push(pass);
+  }
+
+  recordRules(rules: RuleReport[]): void {
+    this.rules.push(...rules);
+  }
+
+  recordFallback(fallback: GeneratedFallback): void {
+    this.fallbacks.push(fallback);
+  }
+
+  recordBigIntCandidate(candidate: BigIntCandidate): void {
+    this.bigIntCandidates.push(candidate);
+  }
+
+  toJSON(): TransformReport {
+    return {
+      spec: this.spec,
+      source: this.source,
+      passes: this.passes,
+      rules: this.rules,
+      fallbacks: this.fallbacks,
+      bigIntCandidates: this.bigIntCandidates,
+    };
+  }
+
+  /**
+   * Write the report as JSON to `reportPath`, plus a Markdown summary alongside it
+   */
+  async save(reportPath: string): Promise<void> {
+    const report = this.toJSON();
+    await writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+    const markdownPath = reportPath.replace(/\.json$/, "") + ".md";
+    await writeFile(markdownPath, renderReportMarkdown(report), "utf8");
+    console.log(`✅ Transformation report saved to ${reportPath} and ${markdownPath}`);
+  }
+}
+
+// ===== MARKDOWN =====
+
+const MAX_VALUE_LENGTH = 80;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  const json = JSON.stringify(value);
+  const text = json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH - 1)}…` : json;
+  return `\`${text.replace(/`/g, "'").replace(/\|/g, "\\|")}\``;
+}
+
+export function renderReportMarkdown(report: TransformReport): string {
+  const lines: string[] = [`# Transformation report: ${report.spec}`, "", `Source: \`${report.source}\``, ""];
+
+  lines.push("| Pass | Summary | Changes |", "| ---- | ------- | ------- |");
+  for (const pass of report.passes) {
+    lines.push(`| \`${pass.name}\` | ${pass.summary} | ${pass.changes.length} |`);
+  }
+
+  const stale = report.rules.filter((rule) => rule.matches === 0);
+  if (stale.length > 0) {
+    lines.push("", "## Stale rules", "", "Config rules that matched nothing in this spec:", "", "| Group | Rule |", "| ----- | ---- |");
+    for (const rule of stale) {
+      lines.push(`| \`${rule.group}\` | \`${rule.rule}\` |`);
+    }
+  }
+
+  if (report.fallbacks.length > 0) {
+    lines.push(
+      "",
+      "## Generated fallbacks",
+      "",
+      "Required values missing upstream, generated because no config supplies them:",
+      "",
+      "| Pointer | Value |",
+      "| ------- | ----- |",
+    );
+    for (const fallback of report.fallbacks) {
+      lines.push(`| \`${fallback.pointer}\` | ${formatValue(fallback.value)} |`);
+    }
+  }
+
+  if (report.bigIntCandidates.length > 0) {
+    lines.push(
+      "",
+      "## BigInt candidates",
+      "",
+      "Integer fields that look 64-bit but no bigIntFields rule marks:",
+      "",
+      "| Pointer | Evidence | Marked |",
+      "| ------- | -------- | ------ |",
+    );
+    for (const candidate of report.bigIntCandidates) {
+      lines.push(`| \`${candidate.pointer}\` | ${candidate.evidence} | ${candidate.marked ? "yes" : "no"} |`);
+    }
+  }
+
+  if (report.rules.length > 0) {
+    lines.push("", "## Rule matches", "", "| Group | Rule | Matches |", "| ----- | ---- | ------- |");
+    for (const rule of report.rules) {
+      const matched = rule.matched ? `: ${rule.matched.map((name) => `\`${name}\``).join(", ")}` : "";
+      lines.push(`| \`${rule.group}\` | \`${rule.rule}\` | ${rule.matches}${matched} |`);
+    }
+  }
+
+  for (const pass of report.passes) {
+    if (pass.changes.length === 0) continue;
+    lines.push("", `## ${pass.name}`, "", "| Op | Pointer | Before | After |", "| -- | ------- | ------ | ----- |");
+    for (const change of pass.changes) {
+      lines.push(`| ${change.op} | \`${change.pointer}\` | ${formatValue(change.before)} | ${formatValue(change.after)} |`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,110 @@
+// Config rules pick schemas, fields, paths and operationIds by name. Every such selector is one of:
+//   exact  "num-uint", "/v2/blocks/{round}"
+//   glob   "*StateSchema", "/v2/deltas/**"   (* matches within a path segment, ** across segments, ? a single character)
+//   regex  "/^hb-/", "/^apiv1/i"             (slash-delimited, with optional flags)
+
+// ===== TYPES =====
+
+export type SelectorKind = "exact" | "glob" | "regex";
+
+export interface CompiledSelector {
+  source: string; // Selector as written in the config
+  kind: SelectorKind;
+  regex?: RegExp; // Compiled pattern, for globs and regexes
+  test(value: string): boolean;
+}
+
+// ===== COMPILATION =====
+
+const REGEX_SELECTOR = /^\/(.+)\/([dimsuv]*)$/;
+
+// Compiled selectors by source, so that each pattern is only compiled once however many names it is tested against
+const compiled = new Map<string, CompiledSelector>();
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      pattern += ".*";
+      i++;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * The regex written as a slash-delimited literal ("/^hb-/i"), with `extraFlags` added, or undefined for any other
+ * text. Throws on an invalid regex, calling it `what` in the error.
+ */
+export function parseRegexLiteral(source: string, extraFlags = "", what = "regex"): RegExp | undefined {
+  const regexParts = REGEX_SELECTOR.exec(source);
+  if (!regexParts) return undefined;
+  try {
+    return new RegExp(regexParts[1], [...new Set(regexParts[2] + extraFlags)].join(""));
+  } catch (error) {
+    throw new Error(`Invalid ${what} ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Compile a selector, or return the already compiled one. Throws on an invalid regex.
+ */
+export function compileSelector(source: string): CompiledSelector {
+  const cached = compiled.get(source);
+  if (cached) return cached;
+
+  let selector: CompiledSelector;
+  const regex = parseRegexLiteral(source, "", "regex selector");
+  if (regex) {
+    selector = { source, kind: "regex", regex, test: (value) => regex.test(value) };
+  } else if (/[*?]/.test(source)) {
+    const regex = globToRegExp(source);
+    selector = { source, kind: "glob", regex, test: (value) => regex.test(value) };
+  } else {
+    selector = { source, kind: "exact", test: (value) => value === source };
+  }
+
+  compiled.set(source, selector);
+  return selector;
+}
+
+// ===== MATCHING =====
+
+export function matchesSelector(selector: string, value: string): boolean {
+  return compileSelector(selector).test(value);
+}
+
+/**
+ * Whether any of the selectors is a glob or regex rather than an exact name
+ */
+export function isPattern(...selectors: (string | string[] | undefined)[]): boolean {
+  return selectors.flat().some((selector) => selector !== undefined && compileSelector(selector).kind !== "exact");
+}
+
+/**
+ * Keys of `map` matched by the selector, in map order. An exact selector is looked up directly.
+ */
+export function selectKeys(selector: string, map: Record<string, unknown> | undefined): string[] {
+  if (!map) return [];
+  const compiledSelector = compileSelector(selector);
+  if (compiledSelector.kind === "exact") {
+    return Object.hasOwn(map, selector) ? [selector] : [];
+  }
+  return Object.keys(map).filter((key) => compiledSelector.test(key));
+}
+
+/**
+ * New name for `name` matched by a rename rule: a regex selector's `to` may refer to capture groups ($1, $<name>),
+ * otherwise `to` is used as is
+ */
+export function renameMatch(selector: string, name: string, to: string): string {
+  const compiledSelector = compileSelector(selector);
+  return compiledSelector.kind === "regex" ? name.replace(compiledSelector.regex!, to) : to;
+}
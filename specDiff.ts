@@ -0,0 +1,328 @@
+import { HTTP_METHODS } from "./traversal.js";
+import type { OpenAPISpec } from "./types.js";
+
+// ===== TYPES =====
+
+export type SpecChangeKind =
+  | "operation-added"
+  | "operation-removed"
+  | "operation-id-changed"
+  | "parameter-added"
+  | "parameter-removed"
+  | "parameter-required"
+  | "parameter-optional"
+  | "schema-added"
+  | "schema-removed"
+  | "schema-renamed"
+  | "field-added"
+  | "field-removed"
+  | "field-required"
+  | "field-optional"
+  | "type-changed"
+  | "extension-added"
+  | "extension-removed"
+  | "extension-changed";
+
+export interface SpecChange {
+  kind: SpecChangeKind;
+  breaking: boolean; // Whether SDKs generated from the new spec break existing callers
+  location: string; // e.g. "GET /v2/status", "Account.amount"
+  message: string;
+}
+
+// Extensions that change the generated type or property name when added, removed or changed.
+// Other x-algokit-* extensions only add metadata and are breaking only when dropped.
+const TYPE_AFFECTING_EXTENSIONS = new Set([
+  "x-algokit-bigint",
+  "x-algokit-field-rename",
+  "x-algokit-signed-txn",
+  "x-algokit-bytes-base64",
+  "x-algokit-box-reference",
+  "x-algokit-locals-reference",
+  "x-algokit-holding-reference",
+]);
+
+const SCHEMA_REF = "#/components/schemas/";
+
+// ===== HELPERS =====
+
+function collectOperations(spec: OpenAPISpec): Map<string, any> {
+  const operations = new Map<string, any>();
+  for (const [path, pathObj] of Object.entries(spec.paths ?? {})) {
+    if (!pathObj || typeof pathObj !== "object") continue;
+    for (const method of HTTP_METHODS) {
+      if (pathObj[method]) operations.set(`${method.toUpperCase()} ${path}`, pathObj[method]);
+    }
+  }
+  return operations;
+}
+
+function resolveParam(spec: OpenAPISpec, param: any): any {
+  if (typeof param?.$ref !== "string" || !param.$ref.startsWith("#/components/parameters/")) return param;
+  return spec.components?.parameters?.[param.$ref.substring("#/components/parameters/".length)] ?? param;
+}
+
+function algokitExtensions(obj: any): Map<string, unknown> {
+  const extensions = new Map<string, unknown>();
+  if (!obj || typeof obj !== "object") return extensions;
+  for (const [key, value] of Object.entries(obj)) {
+    if (key.startsWith("x-algokit-")) extensions.set(key, value);
+  }
+  return extensions;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Summarise a schema by its type and property names so renamed schemas can be matched even when
+ * descriptions, extensions or required flags changed alongside the rename. Schemas without properties have no
+ * shape: any two empty objects or plain strings would look alike.
+ */
+function schemaShape(schema: any): string | undefined {
+  const properties = Object.keys(schema?.properties ?? {}).sort();
+  return properties.length > 0 ? `${schema.type}:${properties.join(",")}` : undefined;
+}
+
+/**
+ * Type of a schema as written in change messages, e.g. "integer (uint64)", "Account" for a $ref or "array". Array
+ * items and object properties are compared on their own, so they are left out. `renames` maps renamed schemas to
+ * their new names, so refs that follow a rename compare equal.
+ */
+function typeLabel(schema: any, renames: Map<string, string> = new Map()): string {
+  if (!schema || typeof schema !== "object") return "any";
+  if (typeof schema.$ref === "string") {
+    const name = schema.$ref.startsWith(SCHEMA_REF) ? schema.$ref.slice(SCHEMA_REF.length) : schema.$ref;
+    return renames.get(name) ?? name;
+  }
+  for (const [keyword, separator] of [
+    ["allOf", " & "],
+    ["oneOf", " | "],
+    ["anyOf", " | "],
+  ]) {
+    if (Array.isArray(schema[keyword])) return schema[keyword].map((member: any) => typeLabel(member, renames)).join(separator);
+  }
+  const type = Array.isArray(schema.type) ? schema.type.join(" | ") : (schema.type ?? (schema.properties ? "object" : "any"));
+  return schema.format ? `${type} (${schema.format})` : type;
+}
+
+// ===== COMPARISON =====
+
+function diffType(base: any, head: any, location: string, changes: SpecChange[], renames?: Map<string, string>): void {
+  const before = typeLabel(base, renames);
+  const after = typeLabel(head);
+  if (before === after) return;
+  changes.push({ kind: "type-changed", breaking: true, location, message: `Type changed from \`${before}\` to \`${after}\`` });
+}
+
+function diffExtensions(base: any, head: any, location: string, changes: SpecChange[]): void {
+  const before = algokitExtensions(base);
+  const after = algokitExtensions(head);
+
+  for (const [key, value] of before) {
+    if (key === "x-algokit-original-name") continue;
+    if (!after.has(key)) {
+      changes.push({ kind: "extension-removed", breaking: true, location, message: `\`${key}\` removed` });
+    } else if (!sameJson(value, after.get(key))) {
+      changes.push({
+        kind: "extension-changed",
+        breaking: TYPE_AFFECTING_EXTENSIONS.has(key),
+        location,
+        message: `\`${key}\` changed from \`${JSON.stringify(value)}\` to \`${JSON.stringify(after.get(key))}\``,
+      });
+    }
+  }
+  for (const [key, value] of after) {
+    if (key === "x-algokit-original-name" || before.has(key)) continue;
+    changes.push({
+      kind: "extension-added",
+      breaking: TYPE_AFFECTING_EXTENSIONS.has(key),
+      location,
+      message: `\`${key}: ${JSON.stringify(value)}\` added`,
+    });
+  }
+}
+
+/**
+ * Compare a schema and, recursively, its properties, array items and map values. `name` is the location of the
+ * schema: "Account", "Account.params.total", "Account.foreign-apps[]" or "Account.balances{}".
+ */
+function diffSchema(name: string, base: any, head: any, changes: SpecChange[], renames: Map<string, string>): void {
+  diffType(base, head, name, changes, renames);
+  diffExtensions(base, head, name, changes);
+
+  const baseProps: Record<string, any> = base?.properties ?? {};
+  const headProps: Record<string, any> = head?.properties ?? {};
+  const baseRequired = new Set<string>(base?.required ?? []);
+  const headRequired = new Set<string>(head?.required ?? []);
+
+  for (const [prop, def] of Object.entries(baseProps)) {
+    const location = `${name}.${prop}`;
+    if (!(prop in headProps)) {
+      changes.push({ kind: "field-removed", breaking: true, location, message: "Field removed" });
+      continue;
+    }
+    if (baseRequired.has(prop) && !headRequired.has(prop)) {
+      changes.push({ kind: "field-optional", breaking: true, location, message: "Field changed from required to optional" });
+    } else if (!baseRequired.has(prop) && headRequired.has(prop)) {
+      changes.push({ kind: "field-required", breaking: false, location, message: "Field changed from optional to required" });
+    }
+    diffSchema(location, def, headProps[prop], changes, renames);
+  }
+
+  for (const prop of Object.keys(headProps)) {
+    if (prop in baseProps) continue;
+    const required = headRequired.has(prop);
+    changes.push({
+      kind: "field-added",
+      breaking: required,
+      location: `${name}.${prop}`,
+      message: required ? "Required field added" : "Optional field added",
+    });
+  }
+
+  if (base?.items && head?.items) diffSchema(`${name}[]`, base.items, head.items, changes, renames);
+  const [baseValues, headValues] = [base?.additionalProperties, head?.additionalProperties];
+  if (typeof baseValues === "object" && typeof headValues === "object") {
+    diffSchema(`${name}{}`, baseValues, headValues, changes, renames);
+  }
+}
+
+function diffSchemas(base: OpenAPISpec, head: OpenAPISpec, changes: SpecChange[]): void {
+  const baseSchemas: Record<string, any> = base.components?.schemas ?? {};
+  const headSchemas: Record<string, any> = head.components?.schemas ?? {};
+
+  const removed = Object.keys(baseSchemas).filter((name) => !(name in headSchemas));
+  const added = new Set(Object.keys(headSchemas).filter((name) => !(name in baseSchemas)));
+
+  // Pair removed and added schemas that share an original upstream name or the same shape
+  const renames = new Map<string, string>();
+  for (const oldName of removed) {
+    const oldSchema = baseSchemas[oldName];
+    const originalName = oldSchema["x-algokit-original-name"] ?? oldName;
+    const shape = schemaShape(oldSchema);
+    const newName = [...added].find(
+      (name) =>
+        (headSchemas[name]["x-algokit-original-name"] ?? name) === originalName ||
+        (shape !== undefined && schemaShape(headSchemas[name]) === shape),
+    );
+
+    if (newName) {
+      added.delete(newName);
+      renames.set(oldName, newName);
+    } else {
+      changes.push({ kind: "schema-removed", breaking: true, location: oldName, message: "Schema removed" });
+    }
+  }
+
+  for (const name of added) {
+    changes.push({ kind: "schema-added", breaking: false, location: name, message: "Schema added" });
+  }
+
+  for (const [oldName, newName] of renames) {
+    changes.push({ kind: "schema-renamed", breaking: true, location: oldName, message: `Schema renamed to \`${newName}\`` });
+    diffSchema(newName, baseSchemas[oldName], headSchemas[newName], changes, renames);
+  }
+  for (const name of Object.keys(baseSchemas)) {
+    if (name in headSchemas) diffSchema(name, baseSchemas[name], headSchemas[name], changes, renames);
+  }
+}
+
+function diffParameters(base: OpenAPISpec, head: OpenAPISpec, key: string, baseOp: any, headOp: any, changes: SpecChange[]): void {
+  const index = (spec: OpenAPISpec, op: any) =>
+    new Map<string, any>((op.parameters ?? []).map((p: any) => resolveParam(spec, p)).map((p: any) => [`${p.in}:${p.name}`, p]));
+  const baseParams = index(base, baseOp);
+  const headParams = index(head, headOp);
+
+  for (const [id, param] of baseParams) {
+    const location = `${key} (${param.in} parameter \`${param.name}\`)`;
+    const next = headParams.get(id);
+    if (!next) {
+      changes.push({ kind: "parameter-removed", breaking: true, location, message: "Parameter removed" });
+      continue;
+    }
+    if (!param.required && next.required) {
+      changes.push({ kind: "parameter-required", breaking: true, location, message: "Parameter changed from optional to required" });
+    } else if (param.required && !next.required) {
+      changes.push({ kind: "parameter-optional", breaking: false, location, message: "Parameter changed from required to optional" });
+    }
+    diffType(param.schema, next.schema, location, changes);
+    diffExtensions(param.schema ?? param, next.schema ?? next, location, changes);
+  }
+
+  for (const [id, param] of headParams) {
+    if (baseParams.has(id)) continue;
+    changes.push({
+      kind: "parameter-added",
+      breaking: !!param.required,
+      location: `${key} (${param.in} parameter \`${param.name}\`)`,
+      message: param.required ? "Required parameter added" : "Optional parameter added",
+    });
+  }
+}
+
+function diffOperations(base: OpenAPISpec, head: OpenAPISpec, changes: SpecChange[]): void {
+  const baseOps = collectOperations(base);
+  const headOps = collectOperations(head);
+
+  for (const [key, op] of baseOps) {
+    const next = headOps.get(key);
+    if (!next) {
+      changes.push({ kind: "operation-removed", breaking: true, location: key, message: `Operation \`${op.operationId}\` removed` });
+      continue;
+    }
+    if (op.operationId !== next.operationId) {
+      changes.push({
+        kind: "operation-id-changed",
+        breaking: true,
+        location: key,
+        message: `operationId changed from \`${op.operationId}\` to \`${next.operationId}\``,
+      });
+    }
+    diffParameters(base, head, key, op, next, changes);
+  }
+
+  for (const [key, op] of headOps) {
+    if (!baseOps.has(key)) {
+      changes.push({ kind: "operation-added", breaking: false, location: key, message: `Operation \`${op.operationId}\` added` });
+    }
+  }
+}
+
+/**
+ * Compare two processed specs and classify every change by its impact on generated SDKs
+ */
+export function diffSpecs(base: OpenAPISpec, head: OpenAPISpec): SpecChange[] {
+  const changes: SpecChange[] = [];
+  diffOperations(base, head, changes);
+  diffSchemas(base, head, changes);
+  return changes;
+}
+
+// ===== MARKDOWN =====
+
+export function renderDiffMarkdown(title: string, changes: SpecChange[]): string {
+  const lines = [`## ${title}`, ""];
+
+  if (changes.length === 0) {
+    lines.push("No changes.");
+    return `${lines.join("\n")}\n`;
+  }
+
+  const breaking = changes.filter((c) => c.breaking);
+  const nonBreaking = changes.filter((c) => !c.breaking);
+
+  if (breaking.length > 0) {
+    lines.push("### ⚠️ Breaking changes", "");
+    breaking.forEach((c) => lines.push(`- **${c.location}**: ${c.message}`));
+    lines.push("");
+  }
+  if (nonBreaking.length > 0) {
+    lines.push("### Non-breaking changes", "");
+    nonBreaking.forEach((c) => lines.push(`- **${c.location}**: ${c.message}`));
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { canonicalizeSpec, resolveCanonicalOrdering } from "../canonical.js";
+
+function unorderedSpec(): any {
+  return {
+    "x-top": true,
+    paths: {
+      "/v2/status": { get: { responses: { "200": { content: {}, description: "OK" } }, operationId: "GetStatus", tags: ["public"] } },
+      "/v2/accounts": { get: { responses: {}, operationId: "GetAccounts" } },
+    },
+    info: { version: "1.0.0", title: "Fixture" },
+    openapi: "3.0.3",
+    components: {
+      schemas: {
+        Wallet: {
+          properties: { id: { type: "string" }, name: { type: "string" }, driver: { description: "Driver", type: "string" } },
+          required: ["driver", "extra", "id"],
+          type: "object",
+          "x-go-name": "Wallet",
+        },
+        Account: { type: "object", properties: {} },
+      },
+    },
+  };
+}
+
+describe("canonicalizeSpec", () => {
+  it("orders OpenAPI keys as the specification lists them, extensions last", () => {
+    const spec = unorderedSpec();
+    canonicalizeSpec(spec);
+    assert.deepEqual(Object.keys(spec), ["openapi", "info", "paths", "components", "x-top"]);
+    assert.deepEqual(Object.keys(spec.info), ["title", "version"]);
+    assert.deepEqual(Object.keys(spec.paths["/v2/status"].get), ["tags", "operationId", "responses"]);
+    assert.deepEqual(Object.keys(spec.paths["/v2/status"].get.responses["200"]), ["description", "content"]);
+    assert.deepEqual(Object.keys(spec.components.schemas.Wallet), ["required", "type", "properties", "x-go-name"]);
+    assert.deepEqual(Object.keys(spec.components.schemas.Wallet.properties.driver), ["type", "description"]);
+  });
+
+  it("sorts paths and schemas by name", () => {
+    const spec = unorderedSpec();
+    canonicalizeSpec(spec);
+    assert.deepEqual(Object.keys(spec.paths), ["/v2/accounts", "/v2/status"]);
+    assert.deepEqual(Object.keys(spec.components.schemas), ["Account", "Wallet"]);
+  });
+
+  it("orders required arrays by property order, unknown names last", () => {
+    const spec = unorderedSpec();
+    canonicalizeSpec(spec);
+    assert.deepEqual(spec.components.schemas.Wallet.required, ["id", "driver", "extra"]);
+  });
+
+  it("counts changes and is idempotent", () => {
+    const spec = unorderedSpec();
+    assert.ok(canonicalizeSpec(spec) > 0);
+    assert.equal(canonicalizeSpec(spec), 0);
+  });
+
+  it("applies only the enabled rules", () => {
+    const spec = unorderedSpec();
+    canonicalizeSpec(spec, resolveCanonicalOrdering({ keyOrder: false, sortRequired: false }));
+    assert.deepEqual(Object.keys(spec), ["x-top", "paths", "info", "openapi", "components"]);
+    assert.deepEqual(Object.keys(spec.paths), ["/v2/accounts", "/v2/status"]);
+    assert.deepEqual(spec.components.schemas.Wallet.required, ["driver", "extra", "id"]);
+  });
+
+  it("does nothing when turned off", () => {
+    const spec = unorderedSpec();
+    assert.equal(canonicalizeSpec(spec, resolveCanonicalOrdering(false)), 0);
+    assert.deepEqual(JSON.stringify(spec), JSON.stringify(unorderedSpec()));
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isUsageError, parseCli } from "../cli.js";
+
+function parseError(argv: string[]): unknown {
+  try {
+    parseCli(argv);
+  } catch (error) {
+    return error;
+  }
+  assert.fail(`parseCli(${JSON.stringify(argv)}) did not throw`);
+}
+
+describe("parseCli", () => {
+  it("parses the command, repeated options and spec shorthands", () => {
+    const options = parseCli(["diff", "a.json", "--spec", "algod,kmd", "--indexer-only", "--source", "algod=./algod.oas2.json"]);
+    assert.equal(options.command, "diff");
+    assert.deepEqual(options.files, ["a.json"]);
+    assert.deepEqual(options.specs, ["algod", "kmd", "indexer"]);
+    assert.deepEqual([...options.sources], [["algod", "./algod.oas2.json"]]);
+    assert.equal(parseCli([]).command, "generate");
+    assert.equal(parseCli(["diff", "--help"]).command, "help");
+  });
+
+  it("flags unknown options and missing values as usage errors", () => {
+    const unknown = parseError(["--bogus"]);
+    assert.match((unknown as Error).message, /Unknown option '--bogus'/);
+    assert.equal(isUsageError(unknown), true);
+    assert.equal(isUsageError(parseError(["--spec"])), true);
+  });
+
+  it("rejects invalid values with their own message", () => {
+    const error = parseError(["--indent", "0"]);
+    assert.match((error as Error).message, /Invalid --indent "0"/);
+    assert.equal(isUsageError(error), false);
+    assert.match((parseError(["publish"]) as Error).message, /Unknown command "publish"/);
+    assert.match((parseError(["toString"]) as Error).message, /Unknown command "toString"/);
+  });
+});
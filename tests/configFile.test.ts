@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ALGOD_CONFIG } from "../config.js";
+import { loadSpecConfigFile, mergeSpecConfig } from "../configFile.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "config-file-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function write(name: string, content: string): Promise<string> {
+  const path = join(dir, name);
+  await mkdir(join(path, ".."), { recursive: true });
+  await writeFile(path, content);
+  return path;
+}
+
+describe("loadSpecConfigFile", () => {
+  it("extends a built-in preset, appending to its arrays unless replaced", async () => {
+    const appended = await loadSpecConfigFile(await write("append.yaml", "extends: algod\nbigIntFields:\n  - fieldName: custom\n"));
+    assert.equal(appended.spec, "algod");
+    assert.deepEqual(appended.config.bigIntFields, [...ALGOD_CONFIG.bigIntFields!, { fieldName: "custom" }]);
+    assert.deepEqual(appended.files, [join(dir, "append.yaml")]);
+    assert.equal(appended.config.vendorExtensionTransforms, ALGOD_CONFIG.vendorExtensionTransforms);
+
+    const replaced = await loadSpecConfigFile(
+      await write("replace.json", JSON.stringify({ extends: "algod", replace: ["bigIntFields"], bigIntFields: [{ fieldName: "custom" }] })),
+    );
+    assert.deepEqual(replaced.config.bigIntFields, [{ fieldName: "custom" }]);
+  });
+
+  it("extends other config files, resolving paths relative to each file", async () => {
+    const base = await write("base.yaml", "spec: custom\nindent: 4\nplugins: [./plugin.ts]\n");
+    const child = await write("team/child.yaml", "extends: ../base.yaml\nindent: 2\nplugins: [./extra.ts]\n");
+    const loaded = await loadSpecConfigFile(child);
+    assert.equal(loaded.spec, "custom");
+    assert.equal(loaded.config.indent, 2);
+    assert.deepEqual(loaded.config.plugins, [join(dir, "plugin.ts"), join(dir, "team", "extra.ts")]);
+    assert.deepEqual(loaded.files, [child, base]);
+  });
+
+  it("reports each schema violation with its line and column", async () => {
+    const path = await write("invalid.yaml", "spec: algod\nindent: four\nbigIntFields:\n  - name: round\n");
+    await assert.rejects(loadSpecConfigFile(path), (error: Error) => {
+      assert.equal(
+        error.message,
+        [
+          "Invalid config file:",
+          `${path}:4:5: /bigIntFields/0 missing required property "fieldName"`,
+          `${path}:4:5: /bigIntFields/0 unknown property "name"`,
+          `${path}:2:9: /indent must be number`,
+        ].join("\n"),
+      );
+      return true;
+    });
+  });
+
+  it("rejects YAML errors, circular extends and configs without a spec", async () => {
+    await assert.rejects(
+      loadSpecConfigFile(await write("broken.yaml", "spec: [algod\n")),
+      /Invalid config file:\n.*broken\.yaml:\d+:\d+: /,
+    );
+
+    const a = await write("a.yaml", "extends: ./b.yaml\n");
+    const b = await write("b.yaml", "extends: ./a.yaml\n");
+    await assert.rejects(loadSpecConfigFile(a), { message: `Circular config extends: ${a} → ${b} → ${a}` });
+
+    await assert.rejects(
+      loadSpecConfigFile(await write("orphan.yaml", "indent: 2\n")),
+      /config must set "spec" or extend a built-in preset/,
+    );
+  });
+});
+
+describe("mergeSpecConfig", () => {
+  it("appends arrays, replaces other values and leaves the base untouched", () => {
+    const base = { indent: 2, disablePasses: ["a"], passOrder: ["a", "b"] };
+    const merged = mergeSpecConfig(base, { indent: 4, disablePasses: ["b"], passOrder: ["b"] }, ["passOrder"]);
+    assert.deepEqual(merged, { indent: 4, disablePasses: ["a", "b"], passOrder: ["b"] });
+    assert.deepEqual(base, { indent: 2, disablePasses: ["a"], passOrder: ["a", "b"] });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { checkConsistency, renderConsistencyMarkdown } from "../consistency.js";
+import { CONSISTENCY_CONFIG, SPECS } from "../config.js";
+import type { ConsistencyAllowance, OpenAPISpec } from "../types.js";
+
+const SPECS_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "specs");
+
+function spec(schemas: Record<string, any>): OpenAPISpec {
+  return { openapi: "3.0.3", info: { title: "Fixture", version: "1.0.0" }, paths: {}, components: { schemas } };
+}
+
+const algod = spec({
+  Account: {
+    type: "object",
+    required: ["amount"],
+    properties: {
+      amount: { type: "integer", format: "uint64", "x-algokit-bigint": true },
+      round: { type: "integer", "x-algokit-bigint": true },
+      status: { type: "string" },
+      "apps-local-state": { type: "array", items: { $ref: "#/components/schemas/ApplicationLocalState" } },
+    },
+  },
+  AvmValue: { type: "object", properties: { bytes: { type: "string", format: "byte" } } },
+});
+
+const indexer = spec({
+  Account: {
+    type: "object",
+    required: ["amount", "round"],
+    properties: {
+      amount: { type: "integer", "x-algokit-bigint": true },
+      round: { type: "integer" },
+      status: { type: "string" },
+      "apps-local-state": { type: "array", items: { $ref: "#/components/schemas/ApplicationLocalState" } },
+      deleted: { type: "boolean" },
+    },
+  },
+  TealValue: { type: "object", properties: { bytes: { type: "string", "x-algokit-bytes-base64": true } } },
+});
+
+const specs = [
+  { name: "algod", spec: algod },
+  { name: "indexer", spec: indexer },
+];
+
+describe("checkConsistency", () => {
+  it("compares type, format, required and extensions of fields both schemas have", () => {
+    const found = checkConsistency(specs);
+    assert.deepEqual(
+      found.map(({ kind, schemas, field, message }) => [kind, schemas[0], field, message]),
+      [
+        ["format", "Account", "amount", '`format` is `"uint64"` in algod, unset in indexer'],
+        ["required", "Account", "round", "required in indexer, optional in algod"],
+        ["extension", "Account", "round", "`x-algokit-bigint` is `true` in algod, unset in indexer"],
+      ],
+    );
+  });
+
+  it("compares configured equivalents and marks allowed differences", () => {
+    const allowance: ConsistencyAllowance = { schema: "Account", field: "/^(amount|round)$/", kind: "format", reason: "Known." };
+    const matches = new Map<ConsistencyAllowance, number>();
+    const found = checkConsistency(specs, { equivalents: [{ algod: "AvmValue", indexer: "TealValue" }], allow: [allowance] }, matches);
+
+    assert.deepEqual(
+      found.filter((i) => i.schemas[0] === "AvmValue").map(({ kind, schemas, field }) => [kind, schemas.join("/"), field]),
+      [
+        ["format", "AvmValue/TealValue", "bytes"],
+        ["extension", "AvmValue/TealValue", "bytes"],
+      ],
+    );
+    assert.deepEqual(
+      found.filter((i) => i.allowed).map((i) => i.field),
+      ["amount"],
+    );
+    assert.equal(matches.get(allowance), 1);
+  });
+
+  it("only allows the differing values an allowance names", () => {
+    const allowance: ConsistencyAllowance = { schema: "*", kind: "format", values: ["uint64", undefined], reason: "Known." };
+    const found = checkConsistency(specs, { equivalents: [{ algod: "AvmValue", indexer: "TealValue" }], allow: [allowance] });
+    assert.deepEqual(
+      found.filter((i) => i.kind === "format").map(({ field, values, allowed }) => [field, values, allowed]),
+      [
+        ["amount", ["uint64", undefined], "Known."],
+        ["bytes", ["byte", undefined], undefined],
+      ],
+    );
+  });
+});
+
+describe("committed specs", () => {
+  it("agree with each other up to the allowed differences, each covering exactly the fields it was added for", async () => {
+    const named = await Promise.all(
+      SPECS.map(async ({ name, outputFile }) => ({
+        name,
+        spec: JSON.parse(await readFile(join(SPECS_DIR, outputFile), "utf8")),
+      })),
+    );
+    const found = checkConsistency(named, CONSISTENCY_CONFIG);
+
+    assert.deepEqual(
+      found.filter((i) => !i.allowed).map(({ kind, schemas, field, message }) => `${schemas.join(" / ")}.${field} (${kind}): ${message}`),
+      [],
+    );
+    const covered = (index: number) =>
+      found.filter((i) => i.allowed === CONSISTENCY_CONFIG.allow![index].reason).map(({ schemas, field }) => `${schemas[1]}.${field}`);
+    assert.equal(CONSISTENCY_CONFIG.allow!.length, 5);
+    assert.deepEqual(covered(0), [
+      "Account.amount",
+      "Account.min-balance",
+      "Account.amount-without-pending-rewards",
+      "Account.pending-rewards",
+      "Account.reward-base",
+      "Account.rewards",
+      "AssetHolding.amount",
+      "AssetParams.total",
+      "EvalDelta.uint",
+      "TealValue.uint",
+      "TealValue.uint",
+    ]);
+    assert.deepEqual(covered(1), [
+      "ApplicationParams.creator",
+      "ApplicationParams.approval-program",
+      "ApplicationParams.clear-state-program",
+    ]);
+    assert.deepEqual(covered(2), ["Account.total-boxes", "Account.total-box-bytes"]);
+    assert.deepEqual(covered(3), ["EvalDelta.bytes", "EvalDeltaKeyValue.key"]);
+    assert.deepEqual(covered(4), ["TealValue.bytes", "TealValue.uint"]);
+  });
+});
+
+describe("renderConsistencyMarkdown", () => {
+  it("separates unexpected and allowed differences", () => {
+    const found = checkConsistency(specs, { allow: [{ schema: "*", kind: "format", reason: "Known." }] });
+    const markdown = renderConsistencyMarkdown(found);
+    assert.match(markdown, /### ⚠️ Inconsistencies\n\n- \*\*algod \/ indexer Account.round\*\* \(required\)/);
+    assert.match(markdown, /### Allowed differences\n\n- \*\*algod \/ indexer Account.amount\*\* \(format\): .*\. Known\./);
+    assert.match(renderConsistencyMarkdown([]), /Shared schemas agree/);
+  });
+});
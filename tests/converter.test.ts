@@ -0,0 +1,214 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convertSwagger2ToOpenAPI3 } from "../converter.js";
+import type { OAS2Spec } from "../types.js";
+
+// Converted document of a minimal Swagger 2.0 spec with these fields
+function convert(fields: Partial<OAS2Spec>): any {
+  return convertSwagger2ToOpenAPI3({ swagger: "2.0", info: { title: "Fixture", version: "1.0.0" }, paths: {}, ...fields });
+}
+
+const OK = { responses: { "200": { description: "OK" } } };
+
+describe("convertSwagger2ToOpenAPI3 parameters", () => {
+  it("moves the simple schema of query, path and header parameters under schema", () => {
+    const { paths } = convert({
+      paths: {
+        "/v2/accounts/{address}": {
+          get: {
+            ...OK,
+            parameters: [
+              { name: "address", in: "path", type: "string", pattern: "[A-Z0-9]{58}" },
+              { name: "round", in: "query", type: "integer", format: "uint64", description: "Round", "x-go-type": "basics.Round" },
+              { name: "X-Token", in: "header", type: "string", required: true },
+            ],
+          },
+        },
+      },
+    });
+    assert.deepEqual(paths["/v2/accounts/{address}"].get.parameters, [
+      { name: "address", in: "path", required: true, schema: { pattern: "[A-Z0-9]{58}", type: "string" } },
+      {
+        name: "round",
+        in: "query",
+        description: "Round",
+        schema: { type: "integer", format: "uint64", "x-go-type": "basics.Round" },
+        "x-go-type": "basics.Round",
+      },
+      { name: "X-Token", in: "header", required: true, schema: { type: "string" } },
+    ]);
+  });
+
+  it("keeps shared parameters as components and refers to them", () => {
+    const converted = convert({
+      parameters: { limit: { name: "limit", in: "query", type: "integer" } },
+      paths: { "/v2/assets": { get: { ...OK, parameters: [{ $ref: "#/parameters/limit" }] } } },
+    });
+    assert.deepEqual(converted.components.parameters.limit, { name: "limit", in: "query", schema: { type: "integer" } });
+    assert.deepEqual(converted.paths["/v2/assets"].get.parameters, [{ name: "limit", in: "query", schema: { type: "integer" } }]);
+  });
+
+  it("maps collectionFormat to style and explode", () => {
+    const param = (name: string, location: string, collectionFormat?: string) => ({
+      name,
+      in: location,
+      type: "array",
+      items: { type: "string" },
+      ...(collectionFormat && { collectionFormat }),
+    });
+    const { paths } = convert({
+      paths: {
+        "/v2/{ids}": {
+          get: {
+            ...OK,
+            parameters: [
+              param("csv", "query"),
+              param("multi", "query", "multi"),
+              param("ssv", "query", "ssv"),
+              param("pipes", "query", "pipes"),
+              param("ids", "path", "csv"),
+              param("tsv", "query", "tsv"),
+            ],
+          },
+        },
+      },
+    });
+    assert.deepEqual(
+      paths["/v2/{ids}"].get.parameters.map(({ name, style, explode }: any) => [name, style, explode]),
+      [
+        ["csv", "form", false],
+        ["multi", "form", true],
+        ["ssv", "spaceDelimited", false],
+        ["pipes", "pipeDelimited", false],
+        ["ids", "simple", false],
+        ["tsv", undefined, undefined],
+      ],
+    );
+  });
+});
+
+describe("convertSwagger2ToOpenAPI3 request bodies", () => {
+  it("turns a body parameter into a request body per consumed media type", () => {
+    const { paths } = convert({
+      consumes: ["application/json"],
+      paths: {
+        "/v2/teal/dryrun": {
+          post: {
+            ...OK,
+            consumes: ["application/json", "application/msgpack"],
+            parameters: [{ name: "request", in: "body", required: true, schema: { $ref: "#/definitions/DryrunRequest" } }],
+          },
+        },
+      },
+    });
+    const operation = paths["/v2/teal/dryrun"].post;
+    assert.deepEqual(operation.requestBody, {
+      content: {
+        "application/json": { schema: { $ref: "#/components/schemas/DryrunRequest" } },
+        "application/msgpack": { schema: { $ref: "#/components/schemas/DryrunRequest" } },
+      },
+      required: true,
+    });
+    assert.equal(operation["x-codegen-request-body-name"], "request");
+    assert.equal(operation.parameters, undefined);
+  });
+
+  it("collapses formData parameters into one object schema", () => {
+    const { paths } = convert({
+      paths: {
+        "/v2/upload": {
+          post: {
+            ...OK,
+            parameters: [
+              { name: "name", in: "formData", type: "string", required: true, description: "File name" },
+              { name: "file", in: "formData", type: "file" },
+            ],
+          },
+        },
+      },
+    });
+    assert.deepEqual(paths["/v2/upload"].post.requestBody, {
+      content: {
+        "multipart/form-data": {
+          schema: {
+            required: ["name"],
+            type: "object",
+            properties: { name: { type: "string", description: "File name" }, file: { type: "string", format: "binary" } },
+          },
+        },
+      },
+      required: true,
+    });
+  });
+
+  it("merges path-level body and formData parameters into each operation's request body", () => {
+    const { paths } = convert({
+      consumes: ["application/json"],
+      paths: {
+        "/v2/blob": {
+          parameters: [
+            { name: "blob", in: "body", schema: { type: "string" } },
+            { name: "id", in: "query", type: "integer" },
+          ],
+          put: OK,
+          post: { ...OK, parameters: [{ name: "other", in: "body", required: true, schema: { type: "object" } }] },
+        },
+        "/v2/form": {
+          parameters: [
+            { name: "name", in: "formData", type: "string", description: "Path-level" },
+            { name: "note", in: "formData", type: "string" },
+          ],
+          post: {
+            ...OK,
+            consumes: ["application/x-www-form-urlencoded"],
+            parameters: [{ name: "name", in: "formData", type: "integer" }],
+          },
+        },
+      },
+    });
+
+    const blob = paths["/v2/blob"];
+    assert.deepEqual(blob.parameters, [{ name: "id", in: "query", schema: { type: "integer" } }]);
+    assert.deepEqual(blob.put.requestBody, { content: { "application/json": { schema: { type: "string" } } } });
+    assert.equal(blob.put["x-codegen-request-body-name"], "blob");
+    assert.deepEqual(blob.post.requestBody.content["application/json"].schema, { type: "object" });
+    assert.equal(blob.post["x-codegen-request-body-name"], "other");
+
+    const form = paths["/v2/form"];
+    assert.equal(form.parameters, undefined);
+    assert.deepEqual(form.post.requestBody.content["application/x-www-form-urlencoded"].schema, {
+      type: "object",
+      properties: { note: { type: "string" }, name: { type: "integer" } },
+    });
+  });
+});
+
+describe("convertSwagger2ToOpenAPI3 security and servers", () => {
+  it("converts security definitions to security schemes", () => {
+    const converted = convert({
+      security: [{ api_key: [] }],
+      securityDefinitions: {
+        api_key: { type: "apiKey", name: "X-Algo-API-Token", in: "header", description: "Token" },
+        basic: { type: "basic" },
+        oauth: { type: "oauth2", flow: "application", tokenUrl: "https://example.com/token", scopes: { read: "Read" } },
+      },
+    });
+    assert.deepEqual(converted.security, [{ api_key: [] }]);
+    // Compared as written: unset fields such as description are left out
+    assert.deepEqual(JSON.parse(JSON.stringify(converted.components.securitySchemes)), {
+      api_key: { type: "apiKey", description: "Token", name: "X-Algo-API-Token", in: "header" },
+      basic: { type: "http", scheme: "basic" },
+      oauth: { type: "oauth2", flows: { clientCredentials: { tokenUrl: "https://example.com/token", scopes: { read: "Read" } } } },
+    });
+  });
+
+  it("builds servers from schemes, host and basePath", () => {
+    const servers = (fields: Partial<OAS2Spec>) => convert(fields).servers;
+    assert.deepEqual(servers({ schemes: ["http", "https"], host: "localhost:8080", basePath: "/api" }), [
+      { url: "http://localhost:8080/api" },
+      { url: "https://localhost:8080/api" },
+    ]);
+    assert.deepEqual(servers({ host: "localhost" }), [{ url: "//localhost/" }]);
+    assert.equal(servers({}), undefined);
+  });
+});
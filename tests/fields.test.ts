@@ -0,0 +1,89 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fieldPositionLabel, forEachField, matchesField, parseFieldPath, type FieldPosition } from "../fields.js";
+import type { OpenAPISpec } from "../types.js";
+
+const spec: OpenAPISpec = {
+  openapi: "3.0.3",
+  info: { title: "Fixture", version: "1.0.0" },
+  paths: {
+    "/v2/blocks/{round}": {
+      get: {
+        parameters: [{ name: "round", in: "path", required: true, schema: { type: "integer" } }],
+        responses: {
+          "200": {
+            description: "OK",
+            headers: { "X-Round": { schema: { type: "integer" } } },
+            content: {
+              "application/json": {
+                schema: { type: "object", properties: { "block-txids": { type: "array", items: { type: "string" } } } },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Account: {
+        type: "object",
+        properties: {
+          params: { allOf: [{ type: "object", properties: { total: { type: "integer" } } }] },
+          balances: { type: "object", additionalProperties: { type: "integer" } },
+        },
+      },
+      Digest: { type: "array", items: { type: "integer" } },
+    },
+  },
+};
+
+function fields(): FieldPosition[] {
+  const found: FieldPosition[] = [];
+  forEachField(spec, (field) => found.push(field));
+  return found;
+}
+
+describe("forEachField", () => {
+  it("visits properties at any depth, items, additionalProperties and parameters, but not headers or unnamed schemas", () => {
+    assert.deepEqual(fields().map(fieldPositionLabel), [
+      "Account.params",
+      "Account.params.total",
+      "Account.balances",
+      "Account.balances{}",
+      "/v2/blocks/{round} round",
+      "/v2/blocks/{round} block-txids",
+      "/v2/blocks/{round} block-txids[]",
+    ]);
+  });
+
+  it("gives parameters their parameter object", () => {
+    const round = fields().find((field) => field.name === "round")!;
+    assert.equal(round.parameter, spec.paths!["/v2/blocks/{round}"].get.parameters[0]);
+    assert.deepEqual(round.pointer, ["paths", "/v2/blocks/{round}", "get", "parameters", "0", "schema"]);
+  });
+});
+
+describe("matchesField", () => {
+  it("matches the end of a field's path", () => {
+    const byLabel = new Map(fields().map((field) => [fieldPositionLabel(field), field]));
+    assert.ok(matchesField("total", byLabel.get("Account.params.total")!));
+    assert.ok(matchesField("params.total", byLabel.get("Account.params.total")!));
+    assert.ok(matchesField("*s.to*", byLabel.get("Account.params.total")!));
+    assert.ok(matchesField("block-txids[]", byLabel.get("/v2/blocks/{round} block-txids[]")!));
+    assert.ok(!matchesField("block-txids", byLabel.get("/v2/blocks/{round} block-txids[]")!));
+    assert.ok(matchesField("balances{}", byLabel.get("Account.balances{}")!));
+    assert.ok(matchesField("/^bal/", byLabel.get("Account.balances")!));
+    assert.ok(!matchesField("other.total", byLabel.get("Account.params.total")!));
+  });
+});
+
+describe("parseFieldPath", () => {
+  it("splits names from items and additionalProperties segments", () => {
+    assert.deepEqual(parseFieldPath("txns[].asset-index"), ["txns", "[]", "asset-index"]);
+    assert.deepEqual(parseFieldPath("matrix[][]"), ["matrix", "[]", "[]"]);
+    assert.deepEqual(parseFieldPath("/^hb-.+/"), ["/^hb-.+/"]);
+    assert.throws(() => parseFieldPath("a..b"), /Invalid field path "a..b"/);
+    assert.throws(() => parseFieldPath("a[0]"), /Invalid field path/);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { OpenAPIProcessor } from "../processor.js";
+import { UpstreamCache } from "../cache.js";
+import { diffJson } from "../jsonDiff.js";
+import { readLock, sha256 } from "../lockfile.js";
+import { SPECS } from "../config.js";
+import type { SpecConfig } from "../types.js";
+
+// End-to-end runs of the whole pipeline, fully offline:
+//   tests/fixtures/golden/<case>/  source.oas2.json + config.json → expected.oas3.json (UPDATE_GOLDEN=1 rewrites it)
+//   specs/<outputFile>  → itself, with the spec's own config: every pass must leave a processed spec unchanged
+//   tests/fixtures/upstream/<spec>.oas2.json  upstream snapshot → specs/<outputFile>, with the spec's own config
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const GOLDEN_DIR = join(ROOT, "tests", "fixtures", "golden");
+const UPSTREAM_DIR = join(ROOT, "tests", "fixtures", "upstream");
+
+/**
+ * Run a source document through the pipeline the way an upstream fetch would: the document is served from a
+ * throwaway offline cache by its sha256, so typo patches and source verification apply as for a real run
+ */
+async function generate(sourcePath: string, config: SpecConfig): Promise<string> {
+  const raw = await readFile(sourcePath, "utf8");
+  const cacheDir = await mkdtemp(join(tmpdir(), "openapi-converter-golden-"));
+  const sourceUrl = `https://snapshots.invalid/${basename(sourcePath)}`;
+
+  try {
+    await new UpstreamCache(cacheDir).putDocument(sourceUrl, raw);
+    // The built-in converter, since the hosted default needs the network
+    const processor = new OpenAPIProcessor({
+      ...config,
+      converter: "local",
+      sourceUrl,
+      sourceSha256: sha256(raw),
+      cacheDir,
+      offline: true,
+      outputPath: join(cacheDir, "output.oas3.json"),
+    });
+    return processor.formatSpec(await processor.generate());
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+}
+
+function assertSameSpec(actual: string, expected: string): void {
+  // Structural changes first, so a failure lists the JSON Pointers that differ instead of two whole documents
+  const changes = diffJson(JSON.parse(expected), JSON.parse(actual)).map((change) => `${change.op} ${change.pointer}`);
+  assert.deepEqual(changes, []);
+  assert.equal(actual, expected);
+}
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("golden fixtures", async () => {
+  for (const name of await readdir(GOLDEN_DIR)) {
+    it(name, async () => {
+      const dir = join(GOLDEN_DIR, name);
+      const config: SpecConfig = JSON.parse(await readFile(join(dir, "config.json"), "utf8"));
+      const actual = await generate(join(dir, "source.oas2.json"), config);
+
+      const expectedPath = join(dir, "expected.oas3.json");
+      if (process.env.UPDATE_GOLDEN) {
+        await writeFile(expectedPath, actual, "utf8");
+      }
+      assertSameSpec(actual, await readFile(expectedPath, "utf8"));
+    });
+  }
+});
+
+// Not golden coverage: marks already in the committed output carry over, so a dropped or broken rule goes unnoticed.
+// This only catches passes that are not idempotent; the upstream snapshots below check the rules themselves.
+describe("idempotence on the committed specs", () => {
+  for (const spec of SPECS) {
+    // OpenAPI 3 sources skip conversion, so this runs every other pass on the committed output
+    it(`specs/${spec.outputFile} is unchanged by a second ${spec.name} run`, async () => {
+      const committed = join(ROOT, "specs", spec.outputFile);
+      assertSameSpec(await generate(committed, spec.config), await readFile(committed, "utf8"));
+    });
+  }
+});
+
+describe("upstream snapshots", async () => {
+  const lock = await readLock(join(ROOT, "specs", "upstream.lock.json"));
+
+  for (const spec of SPECS) {
+    it(`${spec.name} matches specs/${spec.outputFile}`, async () => {
+      const snapshot = join(UPSTREAM_DIR, `${spec.name}.oas2.json`);
+      const locked = lock[spec.name];
+      assert.ok(locked, `no ${spec.name} entry in specs/upstream.lock.json: run \`npm run update-specs\` and commit the lock`);
+      assert.ok(
+        existsSync(snapshot),
+        `no snapshot at tests/fixtures/upstream/${spec.name}.oas2.json: check in the raw ${spec.name} source ${locked.tag} ` +
+          `(.cache/upstream/documents/${locked.sha256} after a generate run)`,
+      );
+      assert.equal(sha256(await readFile(snapshot, "utf8")), locked.sha256, `snapshot is not the locked ${spec.name} source ${locked.tag}`);
+      const actual = await generate(snapshot, spec.config);
+      assertSameSpec(actual, await readFile(join(ROOT, "specs", spec.outputFile), "utf8"));
+    });
+  }
+});
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyJsonPatch, parsePatchPath } from "../jsonPatch.js";
+
+function spec(): Record<string, any> {
+  return {
+    paths: {
+      "/v2/status": {
+        get: { responses: { "200": { description: "OK", content: { "application/json": { schema: { type: "object" } } } } } },
+      },
+    },
+    components: {
+      schemas: {
+        Account: { type: "object", properties: { amount: { type: "integer", format: "uint64" } } },
+        Block: { allOf: [{ $ref: "#/components/schemas/Header" }, { type: "object" }] },
+        Header: { type: "object" },
+      },
+    },
+  };
+}
+
+describe("parsePatchPath", () => {
+  it("accepts JSON Pointers and $ref-style fragments", () => {
+    assert.deepEqual(parsePatchPath("/paths/~1v2~1status/get"), ["paths", "/v2/status", "get"]);
+    assert.deepEqual(parsePatchPath("#/components/schemas/Account"), ["components", "schemas", "Account"]);
+    assert.deepEqual(parsePatchPath("#/paths/~1v2~1blocks~1%7Bround%7D"), ["paths", "/v2/blocks/{round}"]);
+    assert.deepEqual(parsePatchPath(""), []);
+  });
+
+  it("rejects paths that are not pointers", () => {
+    assert.throws(() => parsePatchPath("components/schemas"), /Invalid JSON patch path "components\/schemas"/);
+  });
+});
+
+describe("applyJsonPatch", () => {
+  it("applies add, remove, replace, move and copy", () => {
+    const doc = spec();
+    const count = applyJsonPatch(
+      doc,
+      [
+        { op: "test", path: "#/components/schemas/Account/properties/amount/format", value: "uint64" },
+        { op: "remove", path: "#/components/schemas/Account/properties/amount/format" },
+        { op: "add", path: "#/components/schemas/Account/required", value: ["amount"] },
+        {
+          op: "replace",
+          path: "/paths/~1v2~1status/get/responses/200/content/application~1json/schema",
+          value: { $ref: "#/components/schemas/Account" },
+        },
+        { op: "remove", path: "#/components/schemas/Block/allOf/1" },
+        { op: "copy", from: "#/components/schemas/Header", path: "#/components/schemas/BlockHeader" },
+        { op: "move", from: "#/components/schemas/Header", path: "#/components/schemas/Block/allOf/-" },
+      ],
+      "jsonPatches[0]",
+    );
+
+    assert.equal(count, 6);
+    assert.deepEqual(doc.components.schemas.Account, { type: "object", properties: { amount: { type: "integer" } }, required: ["amount"] });
+    assert.deepEqual(doc.paths["/v2/status"].get.responses["200"].content["application/json"].schema, {
+      $ref: "#/components/schemas/Account",
+    });
+    assert.deepEqual(doc.components.schemas.Block.allOf, [{ $ref: "#/components/schemas/Header" }, { type: "object" }]);
+    assert.deepEqual(doc.components.schemas.BlockHeader, { type: "object" });
+    assert.equal(doc.components.schemas.Header, undefined);
+  });
+
+  it("names the patch and operation when a test does not match", () => {
+    assert.throws(
+      () =>
+        applyJsonPatch(
+          spec(),
+          [{ op: "test", path: "#/components/schemas/Account/properties/amount/format", value: "int64" }],
+          'JSON patch "Drop uint64 format from Account.amount"',
+        ),
+      {
+        message:
+          'JSON patch "Drop uint64 format from Account.amount" operation 1 (test #/components/schemas/Account/properties/amount/format) ' +
+          'failed: test failed: expected "int64", found "uint64"',
+      },
+    );
+  });
+
+  it("fails on paths that do not exist", () => {
+    assert.throws(
+      () => applyJsonPatch(spec(), [{ op: "remove", path: "#/components/schemas/Missing" }], "jsonPatches[0]"),
+      /jsonPatches\[0\] operation 1 \(remove #\/components\/schemas\/Missing\) failed: \/components\/schemas\/Missing does not exist/,
+    );
+    assert.throws(
+      () => applyJsonPatch(spec(), [{ op: "add", path: "/components/missing/Foo", value: {} }], "jsonPatches[0]"),
+      /\/components\/missing does not exist/,
+    );
+    assert.throws(
+      () => applyJsonPatch(spec(), [{ op: "add", path: "#/components/schemas/Block/allOf/5", value: {} }], "jsonPatches[0]"),
+      /is not a valid index into an array of 2/,
+    );
+  });
+
+  it("refuses to move a value into its own child", () => {
+    assert.throws(
+      () => applyJsonPatch(spec(), [{ op: "move", from: "/components", path: "/components/schemas/Components" }], "jsonPatches[0]"),
+      /cannot move \/components into its own child/,
+    );
+  });
+});
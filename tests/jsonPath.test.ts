@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { queryJsonPath, toJsonPath } from "../jsonPath.js";
+
+const doc = {
+  paths: {
+    "/v2/status": { get: { operationId: "GetStatus", parameters: [] } },
+    "/v2/blocks/{round}": {
+      get: {
+        operationId: "GetBlock",
+        parameters: [
+          { name: "round", in: "path", required: true },
+          { name: "format", in: "query" },
+        ],
+      },
+    },
+  },
+  tags: ["public", "nonparticipating", "private"],
+};
+
+function values(path: string): unknown[] {
+  return queryJsonPath(doc, path).map((node) => node.value);
+}
+
+describe("queryJsonPath", () => {
+  it("selects children by name, index and wildcard", () => {
+    assert.deepEqual(values("$.paths['/v2/status'].get.operationId"), ["GetStatus"]);
+    assert.deepEqual(values('$["tags"][0]'), ["public"]);
+    assert.deepEqual(values("$.tags[-1]"), ["private"]);
+    assert.deepEqual(values("$.paths.*.get.operationId"), ["GetStatus", "GetBlock"]);
+    assert.deepEqual(values("$.tags[0,2]"), ["public", "private"]);
+    assert.deepEqual(values("$.paths.missing"), []);
+  });
+
+  it("selects slices", () => {
+    assert.deepEqual(values("$.tags[1:]"), ["nonparticipating", "private"]);
+    assert.deepEqual(values("$.tags[::-1]"), ["private", "nonparticipating", "public"]);
+  });
+
+  it("selects descendants", () => {
+    assert.deepEqual(values("$..operationId"), ["GetStatus", "GetBlock"]);
+    assert.deepEqual(values("$..parameters[*].name"), ["round", "format"]);
+  });
+
+  it("filters with comparisons, existence tests and logical operators", () => {
+    assert.deepEqual(values("$..parameters[?@.in == 'query'].name"), ["format"]);
+    assert.deepEqual(values("$..parameters[?(@.required)].name"), ["round"]);
+    assert.deepEqual(values("$..parameters[?@.in == 'path' || @.name == 'format'].name"), ["round", "format"]);
+    assert.deepEqual(values("$..parameters[?!@.required && @.in != 'path'].name"), ["format"]);
+  });
+
+  it("reports each node's parent and key", () => {
+    const [node] = queryJsonPath(doc, "$..parameters[?@.name == 'format']");
+    assert.equal(node.parent, doc.paths["/v2/blocks/{round}"].get.parameters);
+    assert.equal(node.key, 1);
+    assert.deepEqual(queryJsonPath(doc, "$")[0], { value: doc, parent: null, key: null });
+  });
+
+  it("rejects invalid queries", () => {
+    assert.throws(() => queryJsonPath(doc, "paths"), /Invalid JSONPath "paths" at 0: expected "\$"/);
+    assert.throws(() => queryJsonPath(doc, "$.paths['/v2"), /unterminated string/);
+    assert.throws(() => queryJsonPath(doc, "@.paths"), /queries must start with "\$"/);
+  });
+});
+
+describe("toJsonPath", () => {
+  it("uses dot notation for identifiers and brackets otherwise", () => {
+    assert.equal(toJsonPath([]), "$");
+    assert.equal(toJsonPath(["paths", "/v2/status", "get", "parameters", 0]), "$.paths['/v2/status'].get.parameters[0]");
+    assert.equal(toJsonPath(["components", "schemas", "x-algokit's"]), "$.components.schemas['x-algokit\\'s']");
+  });
+
+  it("round-trips through queryJsonPath", () => {
+    const path = ["paths", "/v2/blocks/{round}", "get", "parameters", 1, "name"];
+    assert.deepEqual(values(toJsonPath(path)), ["format"]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Ajv2020 } from "ajv/dist/2020.js";
+import { base64LengthPattern, buildSchemaBundle, formatSchemaFile } from "../jsonSchema.js";
+import type { OpenAPISpec } from "../types.js";
+
+function spec(): OpenAPISpec {
+  return {
+    openapi: "3.0.3",
+    info: { title: "Indexer", version: "2.0.0" },
+    paths: {},
+    components: {
+      schemas: {
+        Account: {
+          type: "object",
+          required: ["address", "amount"],
+          discriminator: { propertyName: "address" },
+          properties: {
+            address: { type: "string", example: "AAAA" },
+            amount: { type: "integer", "x-algokit-bigint": true },
+            "reward-base": { type: "integer", format: "int64", "x-algokit-bigint": true, minimum: 0 },
+            "auth-addr": {
+              type: "string",
+              format: "byte",
+              pattern: "^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$",
+              "x-algokit-byte-length": 32,
+            },
+            participation: { $ref: "#/components/schemas/AccountParticipation" },
+            "closed-at": { allOf: [{ $ref: "#/components/schemas/AccountParticipation" }], nullable: true },
+          },
+        },
+        AccountParticipation: {
+          type: "object",
+          properties: { "vote-key": { type: "string", format: "byte", "x-algokit-byte-length": 1, "x-algokit-field-rename": "voteKey" } },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Load a bundle into Ajv the way a consumer would, from the written files
+ */
+function load(bundle = buildSchemaBundle(spec())): Ajv2020 {
+  const ajv = new Ajv2020({ strict: false });
+  for (const { schema } of [...bundle.files, bundle.index]) ajv.addSchema(JSON.parse(formatSchemaFile(schema)));
+  return ajv;
+}
+
+describe("buildSchemaBundle", () => {
+  it("writes one file per component schema, with relative refs and an index", () => {
+    const { files, index } = buildSchemaBundle(spec());
+    assert.deepEqual(
+      files.map(({ fileName }) => fileName),
+      ["Account.schema.json", "AccountParticipation.schema.json"],
+    );
+    const account = files[0].schema;
+    assert.equal(account.$schema, "https://json-schema.org/draft/2020-12/schema");
+    assert.equal(account.$id, "Account.schema.json");
+    assert.deepEqual(account.properties.participation, { $ref: "./AccountParticipation.schema.json" });
+    assert.deepEqual(index.schema.$defs.AccountParticipation, { $ref: "./AccountParticipation.schema.json" });
+    assert.equal(index.schema.title, "Indexer 2.0.0 schemas");
+  });
+
+  it("converts OpenAPI-only keywords", () => {
+    const account = buildSchemaBundle(spec()).files[0].schema;
+    assert.equal(account.discriminator, undefined);
+    assert.deepEqual(account.properties.address, { type: "string", examples: ["AAAA"] });
+    assert.deepEqual(account.properties["closed-at"], { anyOf: [{ $ref: "./AccountParticipation.schema.json" }, { type: "null" }] });
+    assert.equal(account.properties["auth-addr"].contentEncoding, "base64");
+    assert.equal(account.properties["auth-addr"].format, undefined);
+  });
+
+  it("turns byte lengths into base64 patterns and bigints into 64-bit ranges", () => {
+    const [account, participation] = buildSchemaBundle(spec()).files.map(({ schema }) => schema);
+    assert.equal(account.properties["auth-addr"].pattern, base64LengthPattern(32));
+    assert.equal(account.properties["auth-addr"]["x-algokit-byte-length"], undefined);
+    assert.deepEqual(participation.properties["vote-key"], {
+      type: "string",
+      contentEncoding: "base64",
+      pattern: "^[A-Za-z0-9+/][AQgw]==$",
+      "x-algokit-field-rename": "voteKey",
+    });
+    assert.deepEqual([account.properties.amount.minimum, account.properties.amount.maximum], [0n, 18446744073709551615n]);
+    assert.deepEqual([account.properties["reward-base"].minimum, account.properties["reward-base"].maximum], [0, 9223372036854775807n]);
+    assert.match(formatSchemaFile(account), /"maximum": 18446744073709551615\n/);
+  });
+
+  it("validates instances across files", () => {
+    const validate = load().getSchema("Account.schema.json")!;
+    const key = Buffer.alloc(32, 7).toString("base64");
+    assert.equal(validate({ address: "A", amount: 1, "auth-addr": key, participation: { "vote-key": "Bw==" }, "closed-at": null }), true);
+    assert.equal(validate({ address: "A", amount: 1, "auth-addr": Buffer.alloc(31).toString("base64") }), false);
+    assert.equal(validate({ address: "A", amount: -1 }), false);
+    assert.equal(validate({ address: "A", amount: 1, participation: { "vote-key": "AAAA" } }), false);
+  });
+
+  it("rejects refs to anything but component schemas", () => {
+    const broken = spec();
+    broken.components!.schemas!.Account.properties.participation = { $ref: "#/components/schemas/Missing" };
+    assert.throws(() => buildSchemaBundle(broken), /Cannot export \$ref #\/components\/schemas\/Missing/);
+  });
+});
+
+describe("base64LengthPattern", () => {
+  it("matches exactly the base64 encodings of that many bytes", () => {
+    for (let length = 0; length <= 7; length++) {
+      const pattern = new RegExp(base64LengthPattern(length));
+      assert.match(Buffer.alloc(length, 0xff).toString("base64"), pattern);
+      assert.match(Buffer.alloc(length, 0).toString("base64"), pattern);
+      assert.doesNotMatch(Buffer.alloc(length + 1).toString("base64"), pattern);
+      if (length > 0) assert.doesNotMatch(Buffer.alloc(length - 1).toString("base64"), pattern);
+    }
+    assert.doesNotMatch("AB==", new RegExp(base64LengthPattern(1))); // Non-zero unused bits
+  });
+});
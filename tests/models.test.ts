@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import ts from "typescript";
+import { modelPathFor, renderModels } from "../models.js";
+import type { OpenAPISpec } from "../types.js";
+
+function spec(): OpenAPISpec {
+  return {
+    openapi: "3.0.3",
+    info: { title: "Algod REST API.", version: "0.0.1" },
+    paths: {},
+    components: {
+      schemas: {
+        Account: {
+          type: "object",
+          description: "Account information at a given round.",
+          required: ["address", "amount"],
+          properties: {
+            address: { type: "string", "x-algorand-format": "Address" },
+            amount: { type: "integer", "x-algokit-bigint": true },
+            "auth-addr": { type: "string", format: "byte", "x-algokit-byte-length": 32 },
+            params: {
+              type: "object",
+              properties: { "num-uint": { type: "integer", "x-algokit-field-rename": "num_uints" } },
+            },
+            "apps-local-state": { type: "array", items: { $ref: "#/components/schemas/ApplicationLocalState" } },
+          },
+        },
+        ApplicationLocalState: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "integer", "x-algokit-field-rename": "app_id" },
+            "key-value": { type: "object", additionalProperties: { type: "string", enum: ["bytes", "uint"] } },
+          },
+        },
+        SimulateRequest: {
+          type: "object",
+          properties: { txns: { type: "array", items: { type: "object", properties: {}, "x-algokit-signed-txn": true } } },
+        },
+        Round: { type: "integer", "x-algokit-bigint": true },
+      },
+    },
+  };
+}
+
+function syntaxErrors(content: string): string[] {
+  const { diagnostics = [] } = ts.transpileModule(content, { fileName: "models.ts", reportDiagnostics: true });
+  return diagnostics.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+}
+
+describe("renderModels", () => {
+  it("maps the x-algokit extensions and required arrays to TypeScript types", () => {
+    const { content, models, renamed } = renderModels(spec());
+    assert.equal(models, 4);
+    assert.equal(renamed, 2);
+    assert.deepEqual(syntaxErrors(content), []);
+
+    assert.match(content, /export type Address = string;/);
+    assert.match(content, /export type SignedTransaction = Record<string, unknown>;/);
+    assert.match(content, /\/\*\* Account information at a given round. \*\/\nexport interface Account \{/);
+    assert.match(content, /\n {2}address: Address;\n {2}amount: bigint;\n/);
+    assert.match(content, /\/\*\* Exactly 32 bytes. \*\/\n {2}"auth-addr"\?: Uint8Array;/);
+    assert.match(content, /\n {4}num_uints\?: number;\n {2}\};/);
+    assert.match(content, /"apps-local-state"\?: ApplicationLocalState\[\];/);
+    assert.match(content, /\n {2}app_id: number;\n {2}"key-value"\?: Record<string, "bytes" \| "uint">;/);
+    assert.match(content, /txns\?: SignedTransaction\[\];/);
+    assert.match(content, /export type Round = bigint;/);
+  });
+
+  it("lists renamed fields by generated field path in the wire-name table", () => {
+    const { content } = renderModels(spec());
+    assert.match(content, /export interface WireNames \{\n {2}Account: \{\n {4}"params.num_uints": "num-uint";\n {2}\};/);
+    assert.match(content, /ApplicationLocalState: \{\n {4}app_id: "id";\n {2}\};\n\}/);
+    assert.doesNotMatch(content, /WIRE_NAMES/);
+
+    const module = renderModels(spec(), { format: "ts" }).content;
+    assert.deepEqual(syntaxErrors(module), []);
+    assert.match(module, /export const WIRE_NAMES: WireNames = \{\n {2}Account: \{\n {4}"params.num_uints": "num-uint",\n {2}\},/);
+  });
+
+  it("imports external types instead of declaring aliases", () => {
+    const { content } = renderModels(spec(), { imports: { SignedTransaction: "@algorandfoundation/algokit-transact" } });
+    assert.match(content, /import type \{ SignedTransaction \} from "@algorandfoundation\/algokit-transact";/);
+    assert.doesNotMatch(content, /export type SignedTransaction/);
+    assert.throws(() => renderModels(spec(), { imports: { Transaction: "x" } }), /unknown type "Transaction"/);
+  });
+
+  it("rejects schema names that clash once rendered", () => {
+    const clashing = spec();
+    clashing.components!.schemas!["Account-"] = { type: "string" };
+    clashing.components!.schemas!["Account_"] = { type: "string" };
+    assert.throws(() => renderModels(clashing), /Schema "Account_" would be rendered as Account_, which is already taken/);
+  });
+});
+
+describe("modelPathFor", () => {
+  it("names the models after the spec output", () => {
+    assert.equal(modelPathFor("specs/algod.oas3.json"), "specs/algod.models.d.ts");
+    assert.equal(modelPathFor("out/indexer.oas3.min.json", "ts"), "out/indexer.models.ts");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { upgradeToOpenAPI31, validateOpenAPI31 } from "../openapi31.js";
+
+function specWithSchemas(schemas: Record<string, unknown>): any {
+  return { openapi: "3.0.3", info: { title: "Fixture", version: "1.0.0" }, paths: {}, components: { schemas } };
+}
+
+describe("upgradeToOpenAPI31", () => {
+  it("sets the OpenAPI version", () => {
+    const spec = specWithSchemas({});
+    assert.equal(upgradeToOpenAPI31(spec), 1);
+    assert.equal(spec.openapi, "3.1.0");
+  });
+
+  it("turns nullable into a null type, enum value or alternative", () => {
+    const spec = specWithSchemas({
+      Note: { type: "string", nullable: true },
+      Status: { type: "string", enum: ["ok", "failed"], nullable: true },
+      Ref: { $ref: "#/components/schemas/Note", nullable: true },
+      NotNull: { type: "integer", nullable: false },
+    });
+    upgradeToOpenAPI31(spec);
+    const { Note, Status, Ref, NotNull } = spec.components.schemas;
+    assert.deepEqual(Note, { type: ["string", "null"] });
+    assert.deepEqual(Status, { type: ["string", "null"], enum: ["ok", "failed", null] });
+    assert.deepEqual(Ref, { anyOf: [{ $ref: "#/components/schemas/Note" }, { type: "null" }] });
+    assert.deepEqual(NotNull, { type: "integer" });
+  });
+
+  it("wraps nullable schemas without a type in a null alternative", () => {
+    const spec = specWithSchemas({
+      Holding: {
+        allOf: [{ $ref: "#/components/schemas/Asset" }, { type: "object", properties: { amount: { type: "integer", example: 1 } } }],
+        description: "Asset holding",
+        "x-algokit-field-rename": "holding",
+        nullable: true,
+      },
+    });
+    upgradeToOpenAPI31(spec);
+    assert.deepEqual(spec.components.schemas.Holding, {
+      description: "Asset holding",
+      "x-algokit-field-rename": "holding",
+      anyOf: [
+        { allOf: [{ $ref: "#/components/schemas/Asset" }, { type: "object", properties: { amount: { type: "integer", examples: [1] } } }] },
+        { type: "null" },
+      ],
+    });
+  });
+
+  it("rewrites example, boolean exclusive bounds and single-value enums", () => {
+    const spec = specWithSchemas({
+      Rate: { type: "number", minimum: 0, exclusiveMinimum: true, maximum: 1, exclusiveMaximum: false, example: 0.5 },
+      Format: { type: "string", enum: ["msgpack"], default: "msgpack" },
+    });
+    upgradeToOpenAPI31(spec);
+    assert.deepEqual(spec.components.schemas.Rate, { type: "number", exclusiveMinimum: 0, maximum: 1, examples: [0.5] });
+    assert.deepEqual(spec.components.schemas.Format, { type: "string", const: "msgpack", default: "msgpack" });
+  });
+
+  it("replaces allOf wrappers around a lone $ref with $ref siblings and keeps extensions", () => {
+    const spec = specWithSchemas({
+      Account: {
+        type: "object",
+        properties: {
+          owner: { allOf: [{ $ref: "#/components/schemas/Address" }], description: "Owner", "x-algokit-field-rename": "owner_addr" },
+          manager: { allOf: [{ $ref: "#/components/schemas/Address" }], nullable: true },
+        },
+      },
+      Address: { type: "string", "x-algokit-byte-length": 32 },
+    });
+    upgradeToOpenAPI31(spec);
+    assert.deepEqual(spec.components.schemas.Account.properties.owner, {
+      description: "Owner",
+      "x-algokit-field-rename": "owner_addr",
+      $ref: "#/components/schemas/Address",
+    });
+    assert.deepEqual(spec.components.schemas.Account.properties.manager, {
+      anyOf: [{ $ref: "#/components/schemas/Address" }, { type: "null" }],
+    });
+    assert.equal(spec.components.schemas.Address["x-algokit-byte-length"], 32);
+  });
+
+  it("upgrades schemas in parameters and responses", () => {
+    const spec = specWithSchemas({});
+    spec.paths["/v2/status"] = {
+      get: {
+        parameters: [{ name: "format", in: "query", schema: { type: "string", enum: ["json"] } }],
+        responses: {
+          "200": {
+            description: "OK",
+            content: { "application/json": { schema: { type: "object", properties: { round: { type: "integer", nullable: true } } } } },
+          },
+        },
+      },
+    };
+    upgradeToOpenAPI31(spec);
+    const operation = spec.paths["/v2/status"].get;
+    assert.equal(operation.parameters[0].schema.const, "json");
+    assert.deepEqual(operation.responses["200"].content["application/json"].schema.properties.round.type, ["integer", "null"]);
+  });
+});
+
+describe("validateOpenAPI31", () => {
+  it("accepts an upgraded document", () => {
+    const spec = specWithSchemas({ Note: { type: "string", nullable: true, example: "hi" } });
+    upgradeToOpenAPI31(spec);
+    assert.deepEqual(validateOpenAPI31(spec), []);
+  });
+
+  it("reports invalid schemas, missing fields and unresolved $refs", () => {
+    const spec = specWithSchemas({ Bad: { type: "strin" }, Link: { $ref: "#/components/schemas/Missing" } });
+    spec.openapi = "3.1.0";
+    delete spec.info.version;
+    const problems = validateOpenAPI31(spec);
+    assert.ok(problems.includes("/info must have required property 'version'"));
+    assert.ok(problems.some((problem) => problem.startsWith("/components/schemas/Bad/type")));
+    assert.ok(problems.includes("/components/schemas/Link $ref #/components/schemas/Missing does not resolve"));
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse } from "yaml";
+import { formatSpec, outputPathFor, outputPaths } from "../output.js";
+
+const GOLDEN_SPEC = join(dirname(fileURLToPath(import.meta.url)), "fixtures", "golden", "mini", "expected.oas3.json");
+
+describe("output paths", () => {
+  it("derives each format's file from the JSON output path", () => {
+    assert.equal(outputPathFor("specs/algod.oas3.json", "json"), "specs/algod.oas3.json");
+    assert.equal(outputPathFor("specs/algod.oas3.json", "yaml"), "specs/algod.oas3.yaml");
+    assert.equal(outputPathFor("specs/algod.oas3.json", "json-min"), "specs/algod.oas3.min.json");
+    assert.equal(outputPathFor("specs/algod.oas3.min.json", "json"), "specs/algod.oas3.json");
+  });
+
+  it("defaults to JSON and drops duplicate formats", () => {
+    assert.deepEqual(outputPaths("kmd.oas3.json"), [{ format: "json", path: "kmd.oas3.json" }]);
+    assert.deepEqual(
+      outputPaths("kmd.oas3.json", ["yaml", "json", "yaml"]).map(({ path }) => path),
+      ["kmd.oas3.yaml", "kmd.oas3.json"],
+    );
+  });
+
+  it("rejects an empty format list", () => {
+    assert.throws(() => outputPaths("kmd.oas3.json", []), /at least one format/);
+  });
+});
+
+describe("formatSpec", () => {
+  const spec = JSON.parse(readFileSync(GOLDEN_SPEC, "utf8"));
+
+  it("writes indented and minified JSON", () => {
+    assert.equal(formatSpec(spec, "json", 4), JSON.stringify(spec, null, 4));
+    assert.equal(formatSpec(spec, "json-min"), JSON.stringify(spec));
+  });
+
+  it("round-trips YAML with the same content and key order", () => {
+    const yaml = formatSpec(spec, "yaml");
+    const parsed = parse(yaml);
+    assert.deepEqual(parsed, spec);
+    assert.equal(JSON.stringify(parsed), JSON.stringify(spec));
+  });
+
+  it("writes repeated objects in full instead of as YAML aliases", () => {
+    const shared = { type: "string", format: "byte" };
+    const yaml = formatSpec({ openapi: "3.0.3", components: { schemas: { A: shared, B: shared } } }, "yaml");
+    assert.doesNotMatch(yaml, /[&*]a1/);
+    assert.deepEqual(parse(yaml).components.schemas.B, shared);
+  });
+
+  it("keeps multi-line and long descriptions as block scalars", () => {
+    const long = "A description that goes on for a while. ".repeat(5).trim();
+    const yaml = formatSpec({ info: { description: "First line\nSecond line", summary: long, title: "Short" } }, "yaml");
+    assert.match(yaml, /description: \|-\n {4}First line\n {4}Second line\n/);
+    assert.match(yaml, /summary: >-\n/);
+    assert.match(yaml, /title: Short\n/);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { applyOverlay, buildOverlay, loadOverlays, type OverlayDocument } from "../overlay.js";
+import type { OpenAPISpec } from "../types.js";
+
+function spec(): OpenAPISpec {
+  return {
+    openapi: "3.0.1",
+    info: { title: "Algod REST API.", version: "0.0.1" },
+    tags: ["public"],
+    paths: {
+      "/v2/status": { get: { operationId: "GetStatus", tags: ["public", "nonparticipating"], responses: {} } },
+      "/v2/blocks/{round}": {
+        get: {
+          operationId: "GetBlock",
+          parameters: [
+            { name: "round", in: "path", required: true, schema: { type: "integer" } },
+            { name: "format", in: "query", schema: { type: "string" } },
+          ],
+          responses: {},
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Account: { type: "object", properties: { amount: { type: "integer" }, "min-balance": { type: "integer" } } },
+      },
+    },
+  };
+}
+
+function overlay(actions: OverlayDocument["actions"]): OverlayDocument {
+  return { overlay: "1.0.0", info: { title: "Test", version: "1.0.0" }, actions };
+}
+
+describe("applyOverlay", () => {
+  it("merges updates into objects and appends them to arrays", () => {
+    const doc = spec();
+    const counts = applyOverlay(
+      doc,
+      overlay([
+        { target: "$.components.schemas.Account.properties.amount", update: { format: "uint64", "x-algokit-bigint": true } },
+        { target: "$.info", update: { description: "Algod API" } },
+        { target: "$.paths.*.get.tags", update: "algod" },
+      ]),
+      "test overlay",
+    );
+
+    assert.deepEqual(counts, [1, 1, 1]);
+    assert.deepEqual(doc.components!.schemas!.Account.properties.amount, { type: "integer", format: "uint64", "x-algokit-bigint": true });
+    assert.equal(doc.info.description, "Algod API");
+    assert.deepEqual(doc.paths!["/v2/status"].get.tags, ["public", "nonparticipating", "algod"]);
+  });
+
+  it("removes every target, including several elements of one array", () => {
+    const doc = spec();
+    const counts = applyOverlay(
+      doc,
+      overlay([
+        { target: "$..parameters[*]", remove: true },
+        { target: "$.components.schemas.Account.properties['min-balance']", remove: true },
+        { target: "$.paths['/v2/missing']", remove: true },
+      ]),
+      "test overlay",
+    );
+
+    assert.deepEqual(counts, [2, 1, 0]);
+    assert.deepEqual(doc.paths!["/v2/blocks/{round}"].get.parameters, []);
+    assert.deepEqual(Object.keys(doc.components!.schemas!.Account.properties), ["amount"]);
+  });
+
+  it("names the overlay and action that cannot apply", () => {
+    assert.throws(
+      () => applyOverlay(spec(), overlay([{ target: "$.openapi", update: { x: 1 } }]), "Overlay algod.yaml"),
+      /Overlay algod.yaml action 1 \(\$.openapi\) failed: cannot merge/,
+    );
+    assert.throws(() => applyOverlay(spec(), overlay([{ target: "$", remove: true }]), "o"), /the document root cannot be removed/);
+  });
+});
+
+describe("loadOverlays", () => {
+  it("reads YAML and JSON overlays, defaulting to the transformed stage", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "overlay-"));
+    try {
+      await writeFile(
+        join(dir, "a.yaml"),
+        "overlay: 1.0.0\ninfo:\n  title: A\n  version: 1.0.0\nactions:\n  - target: $.info\n    update:\n      x-a: true\n",
+      );
+      await writeFile(join(dir, "b.json"), JSON.stringify(overlay([{ target: "$.tags", remove: true }])));
+      const loaded = await loadOverlays([{ path: join(dir, "a.yaml") }, { path: join(dir, "b.json"), stage: "converted" }]);
+
+      assert.deepEqual(
+        loaded.map(({ stage, document }) => [stage, document.actions[0].target]),
+        [
+          ["transformed", "$.info"],
+          ["converted", "$.tags"],
+        ],
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects documents that are not 1.x overlays", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "overlay-"));
+    try {
+      const path = join(dir, "bad.json");
+      await writeFile(path, JSON.stringify({ ...overlay([{ target: "$.info" }]) }));
+      await assert.rejects(loadOverlays([{ path }]), /Invalid overlay .*bad.json: actions\[0\] needs update or remove: true/);
+      await writeFile(path, JSON.stringify({ ...overlay([{ target: "$.info", remove: true }]), overlay: "2.0.0" }));
+      await assert.rejects(loadOverlays([{ path }]), /unsupported overlay version "2.0.0"/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("buildOverlay", () => {
+  it("exports an overlay that reproduces the transformed spec", () => {
+    const before = spec();
+    const after = spec();
+    after.info["x-algokit-version"] = "4.0.0";
+    delete after.paths!["/v2/status"];
+    after.paths!["/v2/blocks/{round}"].get.parameters[1].schema = { type: "string", enum: ["json", "msgpack"] };
+    after.paths!["/v2/blocks/{round}"].get.tags = ["public"];
+    after.components!.schemas!.Account.properties.amount = { type: "integer", "x-algokit-bigint": true };
+    after.components!.schemas!.Account.required = ["amount"];
+    after.tags = ["public", "private"];
+
+    const exported = buildOverlay(before, after, { title: "algod transformations", version: "0.0.1" });
+    assert.equal(exported.overlay, "1.0.0");
+    assert.deepEqual(
+      exported.actions.filter((action) => action.remove).map((action) => action.target),
+      ["$.tags", "$.paths['/v2/status']"],
+    );
+
+    const reproduced = spec();
+    applyOverlay(reproduced, exported, "exported overlay");
+    assert.deepEqual(reproduced, after);
+  });
+
+  it("is empty when nothing changed", () => {
+    assert.deepEqual(buildOverlay(spec(), spec(), { title: "t", version: "1" }).actions, []);
+  });
+});
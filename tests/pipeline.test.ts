@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolvePipeline, type Pass } from "../pipeline.js";
+import type { SpecConfig } from "../types.js";
+
+function pass(name: string): Pass {
+  return { name, description: name, run: () => 0, summarize: (count) => `${count}` };
+}
+
+const PASSES = ["convert", "rename", "bigint", "required", "validate"].map(pass);
+
+function order(config: SpecConfig): string[] {
+  return resolvePipeline(PASSES, config).map(({ name }) => name);
+}
+
+describe("resolvePipeline", () => {
+  it("keeps the registry order by default", () => {
+    assert.deepEqual(order({}), ["convert", "rename", "bigint", "required", "validate"]);
+  });
+
+  it("starts from passOrder, then drops disabled passes", () => {
+    assert.deepEqual(order({ passOrder: ["bigint", "convert", "rename"], disablePasses: ["rename"] }), ["bigint", "convert"]);
+    assert.deepEqual(order({ disablePasses: ["convert", "validate"] }), ["rename", "bigint", "required"]);
+  });
+
+  it("inserts passes in order, moving those already in the pipeline", () => {
+    const config: SpecConfig = {
+      passOrder: ["convert", "rename", "validate"],
+      insertPasses: [
+        { pass: "bigint", after: "convert" },
+        { pass: "required", before: "bigint" },
+        { pass: "validate", before: "convert" },
+      ],
+    };
+    assert.deepEqual(order(config), ["validate", "convert", "required", "bigint", "rename"]);
+  });
+
+  it("rejects unknown passes and unusable insertions", () => {
+    assert.throws(() => order({ passOrder: ["convert", "fixAll"] }), /Unknown pass "fixAll" in passOrder \(available: convert, rename/);
+    assert.throws(() => order({ disablePasses: ["fixAll"] }), /Unknown pass "fixAll" in disablePasses/);
+    assert.throws(() => order({ insertPasses: [{ pass: "bigint" }] }), /needs exactly one of before or after/);
+    assert.throws(
+      () => order({ insertPasses: [{ pass: "bigint", before: "convert", after: "rename" }] }),
+      /needs exactly one of before or after/,
+    );
+    assert.throws(
+      () => order({ disablePasses: ["rename"], insertPasses: [{ pass: "bigint", after: "rename" }] }),
+      /Cannot insert "bigint" relative to "rename": pass is not in the pipeline/,
+    );
+  });
+});
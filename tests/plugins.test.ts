@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildPassRegistry, loadPlugin, loadPlugins, type OpenAPIConverterPlugin, type PluginPass } from "../plugins.js";
+import type { Pass, PipelineStage } from "../pipeline.js";
+
+function pass(name: string, stage?: PipelineStage): PluginPass {
+  return { name, description: name, run: () => 0, summarize: (count) => `${count}`, ...(stage && { stage }) };
+}
+
+describe("loadPlugins", () => {
+  it("imports TypeScript and JavaScript plugins once each", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "plugins-"));
+    try {
+      await writeFile(
+        join(dir, "stamp.ts"),
+        'const name: string = "stamp";\n' +
+          'export default { name, passes: [{ name: "stamp", description: "Stamp", run: () => 1, summarize: () => "ok" }] };\n',
+      );
+      await writeFile(
+        join(dir, "named.mjs"),
+        'export const plugin = { name: "named", validators: [{ name: "v", validate: () => [] }] };\n',
+      );
+
+      const plugins = await loadPlugins([join(dir, "stamp.ts"), join(dir, "named.mjs"), join(dir, ".", "stamp.ts")]);
+      assert.deepEqual(
+        plugins.map(({ name }) => name),
+        ["stamp", "named"],
+      );
+      assert.equal(await loadPlugin(join(dir, "stamp.ts")), plugins[0]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects modules that are not valid plugins", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "plugins-"));
+    try {
+      const cases: [string, RegExp][] = [
+        ["export default 42;", /module must default-export a plugin object/],
+        ["export default {};", /missing name/],
+        ['export default { name: "p", passes: [{ name: "a", run() {} }] };', /passes need a name, run\(\) and summarize\(\) \(got a\)/],
+        [
+          'export default { name: "p", passes: [{ name: "a", run() {}, summarize() {}, stage: "late" }] };',
+          /pass a has unknown stage "late" \(expected source, converted, transformed\)/,
+        ],
+        ['export default { name: "p", validators: [{ name: "v" }] };', /validators need a name and validate\(\)/],
+        ['export default { name: "p", specs: [{ name: "s", outputFile: "s.json" }] };', /specs need a name, config, github source/],
+      ];
+      for (const [index, [source, message]] of cases.entries()) {
+        const path = join(dir, `invalid-${index}.mjs`);
+        await writeFile(path, source);
+        await assert.rejects(
+          loadPlugin(path),
+          (error: Error) => error.message.startsWith(`Invalid plugin ${path}: `) && message.test(error.message),
+        );
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("buildPassRegistry", () => {
+  const builtin: Pass[] = [pass("convertFirst"), pass("convertLast")];
+
+  it("places plugin passes by stage around the built-in passes", () => {
+    const plugins: OpenAPIConverterPlugin[] = [
+      { name: "a", passes: [pass("late"), pass("raw", "source"), pass("early", "converted")] },
+      { name: "b", passes: [pass("later", "transformed")] },
+    ];
+    const { source, pipeline } = buildPassRegistry(builtin, plugins);
+    assert.deepEqual(
+      source.map(({ name }) => name),
+      ["raw"],
+    );
+    assert.deepEqual(
+      pipeline.map(({ name }) => name),
+      ["early", "convertFirst", "convertLast", "late", "later"],
+    );
+  });
+
+  it("rejects plugin passes named like another pass", () => {
+    assert.throws(() => buildPassRegistry(builtin, [{ name: "a", passes: [pass("convertLast")] }]), /Plugin pass "convertLast" clashes/);
+    assert.throws(
+      () =>
+        buildPassRegistry(builtin, [
+          { name: "a", passes: [pass("stamp")] },
+          { name: "b", passes: [pass("stamp", "source")] },
+        ]),
+      /Plugin pass "stamp" clashes/,
+    );
+  });
+});
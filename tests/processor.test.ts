@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import * as processor from "../processor.js";
+import { RuleMatches } from "../pipeline.js";
+
+// Each fixture in tests/fixtures/transforms/<function>/<case>.json calls the exported processor function named by
+// its directory with `input` (deep-cloned) followed by `args`, then compares the spec with `expected` and the
+// return value with `result`
+interface TransformFixture {
+  description: string;
+  args: unknown[];
+  input: Record<string, unknown>;
+  expected: Record<string, unknown>;
+  result?: unknown;
+}
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures", "transforms");
+
+beforeEach(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+for (const name of readdirSync(FIXTURES_DIR)) {
+  describe(name, () => {
+    const transform = (processor as Record<string, unknown>)[name];
+
+    it("is exported from processor.ts", () => {
+      assert.equal(typeof transform, "function");
+    });
+
+    for (const file of readdirSync(join(FIXTURES_DIR, name))) {
+      const fixture: TransformFixture = JSON.parse(readFileSync(join(FIXTURES_DIR, name, file), "utf8"));
+
+      it(fixture.description, () => {
+        const spec = structuredClone(fixture.input);
+        const result = (transform as (...args: unknown[]) => unknown)(spec, ...structuredClone(fixture.args));
+        assert.deepEqual(spec, fixture.expected);
+        assert.deepEqual(result, fixture.result);
+      });
+    }
+  });
+}
+
+describe("transform rule matches", () => {
+  it("counts how often each rule matched, including fields upstream already marks", () => {
+    const rules = [
+      { fieldName: "group", byteLength: 32 },
+      { fieldName: "missing", byteLength: 32 },
+    ];
+    const spec = {
+      components: {
+        schemas: {
+          Transaction: { properties: { group: { type: "string", format: "byte" } } },
+          Block: { properties: { group: { type: "string", format: "byte", "x-algokit-byte-length": 32 } } },
+        },
+      },
+    };
+    const matches = new Map();
+    assert.equal(processor.fixFixedLengthByteFields(spec, rules, matches), 1);
+    assert.equal(matches.get(rules[0]), 2);
+    assert.equal(matches.has(rules[1]), false);
+  });
+
+  it("lists what glob and regex rules matched", () => {
+    const rules = [
+      { fieldName: "/^hb-/", byteLength: 32 },
+      { fieldName: "seed", schemaName: "*Header", byteLength: 32 },
+      { fieldName: "group", byteLength: 32 },
+    ];
+    const spec = {
+      components: {
+        schemas: {
+          Heartbeat: { properties: { "hb-pk": { type: "string", format: "byte" }, "hb-vote-id": { type: "string", format: "byte" } } },
+          BlockHeader: { properties: { seed: { type: "string", format: "byte" } } },
+          Transaction: { properties: { group: { type: "string", format: "byte" } } },
+        },
+      },
+    };
+    const matches = new RuleMatches<(typeof rules)[number]>();
+    processor.fixFixedLengthByteFields(spec, rules, matches);
+    assert.deepEqual([...(matches.matched.get(rules[0]) ?? [])], ["Heartbeat.hb-pk", "Heartbeat.hb-vote-id"]);
+    assert.deepEqual([...(matches.matched.get(rules[1]) ?? [])], ["BlockHeader.seed"]);
+    assert.equal(matches.get(rules[2]), 1);
+    assert.equal(matches.matched.has(rules[2]), false);
+  });
+});
+
+describe("applyTextPatches", () => {
+  it("replaces exact text and regex matches, counting each patch's matches", () => {
+    const patches = [
+      { find: "/APIV1(POST|DELETE)\\w+Request is the/", replace: "The" },
+      { find: "since eposh", replace: "since epoch" },
+      { find: "$1 typo", replace: "$& unchanged" },
+      { find: "no longer upstream", replace: "anything" },
+    ];
+    const content = JSON.stringify({
+      definitions: {
+        APIV1POSTWalletRequest: { description: "APIV1POSTWalletRequest is the request for `POST /v1/wallet`" },
+        APIV1DELETEKeyRequest: { description: "APIV1DELETEKeyRequest is the request for `DELETE /v1/key`" },
+        APIV1GETWalletsRequest: { description: "APIV1GETWalletsRequest is the request for `GET /v1/wallets`" },
+        Block: { description: "Seconds since eposh, a $1 typo" },
+      },
+    });
+
+    const matches = new Map();
+    const patched = JSON.parse(processor.applyTextPatches(content, patches, matches));
+    assert.equal(patched.definitions.APIV1POSTWalletRequest.description, "The request for `POST /v1/wallet`");
+    assert.equal(patched.definitions.APIV1DELETEKeyRequest.description, "The request for `DELETE /v1/key`");
+    assert.equal(patched.definitions.APIV1GETWalletsRequest.description, "APIV1GETWalletsRequest is the request for `GET /v1/wallets`");
+    assert.equal(patched.definitions.Block.description, "Seconds since epoch, a $& unchanged");
+    assert.deepEqual(
+      patches.map((patch) => matches.get(patch)),
+      [2, 1, 1, 0],
+    );
+  });
+
+  it("rejects invalid regexes", () => {
+    assert.throws(() => processor.applyTextPatches("", [{ find: "/(unclosed/", replace: "" }]), /Invalid text patch regex \/\(unclosed\//);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileSelector, isPattern, matchesSelector, renameMatch, selectKeys } from "../selectors.js";
+
+describe("selectors", () => {
+  it("tells exact names, globs and regexes apart", () => {
+    assert.equal(compileSelector("num-uint").kind, "exact");
+    assert.equal(compileSelector("/v2/blocks/{round}").kind, "exact");
+    assert.equal(compileSelector("/v2/ledger/sync").kind, "exact");
+    assert.equal(compileSelector("*StateSchema").kind, "glob");
+    assert.equal(compileSelector("/v2/deltas/**").kind, "glob");
+    assert.equal(compileSelector("/^hb-/").kind, "regex");
+    assert.equal(compileSelector("/^apiv1/i").kind, "regex");
+  });
+
+  it("compiles each selector once", () => {
+    assert.equal(compileSelector("*StateSchema"), compileSelector("*StateSchema"));
+  });
+
+  it("matches globs within and across path segments", () => {
+    assert.ok(matchesSelector("*StateSchema", "ApplicationStateSchema"));
+    assert.ok(matchesSelector("*StateSchema", "StateSchema"));
+    assert.ok(!matchesSelector("*StateSchema", "StateSchemaDelta"));
+    assert.ok(matchesSelector("/v2/deltas/**", "/v2/deltas/{round}/txn/group"));
+    assert.ok(matchesSelector("/v2/deltas/*", "/v2/deltas/{round}"));
+    assert.ok(!matchesSelector("/v2/deltas/*", "/v2/deltas/{round}/txn/group"));
+    assert.ok(matchesSelector("hb-pk?", "hb-pk2"));
+    assert.ok(!matchesSelector("hb-pk?", "hb-pk"));
+  });
+
+  it("matches regexes with flags", () => {
+    assert.ok(matchesSelector("/^hb-/", "hb-sig"));
+    assert.ok(!matchesSelector("/^hb-/", "ahb-sig"));
+    assert.ok(matchesSelector("/^apiv1/i", "APIV1Wallet"));
+  });
+
+  it("rejects invalid regexes", () => {
+    assert.throws(() => compileSelector("/(unclosed/"), /Invalid regex selector \/\(unclosed\//);
+  });
+
+  it("selects map keys in map order", () => {
+    const properties = { "hb-pk": {}, round: {}, "hb-sig": {} };
+    assert.deepEqual(selectKeys("/^hb-/", properties), ["hb-pk", "hb-sig"]);
+    assert.deepEqual(selectKeys("round", properties), ["round"]);
+    assert.deepEqual(selectKeys("missing", properties), []);
+    assert.deepEqual(selectKeys("*", undefined), []);
+  });
+
+  it("reports whether any selector is a pattern", () => {
+    assert.equal(isPattern("Account", undefined, ["amount"]), false);
+    assert.equal(isPattern("Account", ["amount", "/^hb-/"]), true);
+  });
+
+  it("renames with regex capture groups", () => {
+    assert.equal(renameMatch("/^APIV1(\\w+)Response$/", "APIV1POSTKeyResponse", "$1Result"), "POSTKeyResult");
+    assert.equal(renameMatch("APIV1*", "APIV1Wallet", "Wallet"), "Wallet");
+  });
+});
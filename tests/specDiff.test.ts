@@ -0,0 +1,242 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffSpecs, renderDiffMarkdown } from "../specDiff.js";
+import type { OpenAPISpec } from "../types.js";
+
+function spec(paths: Record<string, any>, schemas: Record<string, any> = {}, parameters: Record<string, any> = {}): OpenAPISpec {
+  return { openapi: "3.0.3", info: { title: "Fixture", version: "1.0.0" }, paths, components: { schemas, parameters } };
+}
+
+function summary(base: OpenAPISpec, head: OpenAPISpec): [string, boolean, string][] {
+  return diffSpecs(base, head).map(({ kind, breaking, location }) => [kind, breaking, location]);
+}
+
+const account = {
+  type: "object",
+  required: ["address", "amount"],
+  properties: {
+    address: { type: "string" },
+    amount: { type: "integer", "x-algokit-bigint": true },
+    status: { type: "string" },
+  },
+};
+
+describe("diffSpecs operations and parameters", () => {
+  const base = spec(
+    {
+      "/v2/status": { get: { operationId: "GetStatus" } },
+      "/v2/ledger/supply": { get: { operationId: "GetSupply" } },
+      "/v2/accounts/{address}": {
+        get: {
+          operationId: "AccountInformation",
+          parameters: [
+            { name: "address", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/format" },
+            { name: "exclude", in: "query", schema: { type: "string" } },
+            { name: "round", in: "query", required: true, schema: { type: "integer", "x-algokit-bigint": true } },
+          ],
+        },
+      },
+    },
+    {},
+    { format: { name: "format", in: "query", schema: { type: "string" } } },
+  );
+
+  it("classifies operation and parameter changes", () => {
+    const head = spec(
+      {
+        "/v2/status": { get: { operationId: "GetNodeStatus" } },
+        "/v2/blocks/{round}": { get: { operationId: "GetBlock" } },
+        "/v2/accounts/{address}": {
+          get: {
+            operationId: "AccountInformation",
+            parameters: [
+              { name: "address", in: "path", required: true, schema: { type: "string" } },
+              { $ref: "#/components/parameters/format" },
+              { name: "round", in: "query", schema: { type: "integer" } },
+              { name: "limit", in: "query", schema: { type: "integer" } },
+              { name: "since", in: "query", required: true, schema: { type: "integer" } },
+            ],
+          },
+        },
+      },
+      {},
+      { format: { name: "format", in: "query", required: true, schema: { type: "string" } } },
+    );
+
+    assert.deepEqual(summary(base, head), [
+      ["operation-id-changed", true, "GET /v2/status"],
+      ["operation-removed", true, "GET /v2/ledger/supply"],
+      ["parameter-required", true, "GET /v2/accounts/{address} (query parameter `format`)"],
+      ["parameter-removed", true, "GET /v2/accounts/{address} (query parameter `exclude`)"],
+      ["parameter-optional", false, "GET /v2/accounts/{address} (query parameter `round`)"],
+      ["extension-removed", true, "GET /v2/accounts/{address} (query parameter `round`)"],
+      ["parameter-added", false, "GET /v2/accounts/{address} (query parameter `limit`)"],
+      ["parameter-added", true, "GET /v2/accounts/{address} (query parameter `since`)"],
+      ["operation-added", false, "GET /v2/blocks/{round}"],
+    ]);
+  });
+
+  it("reports nothing for identical specs", () => {
+    assert.deepEqual(diffSpecs(base, structuredClone(base)), []);
+  });
+});
+
+describe("diffSpecs schemas and fields", () => {
+  it("classifies field and extension changes", () => {
+    const head = spec(
+      {},
+      {
+        Account: {
+          type: "object",
+          required: ["amount", "status", "round"],
+          properties: {
+            amount: { type: "integer", "x-algokit-bigint": true, "x-algokit-field-rename": "microAlgos" },
+            status: { type: "string", "x-algokit-original-name": "status" },
+            round: { type: "integer" },
+            note: { type: "string" },
+          },
+        },
+      },
+    );
+
+    assert.deepEqual(
+      diffSpecs(spec({}, { Account: account }), head).map(({ kind, breaking, location, message }) => [kind, breaking, location, message]),
+      [
+        ["field-removed", true, "Account.address", "Field removed"],
+        ["extension-added", true, "Account.amount", '`x-algokit-field-rename: "microAlgos"` added'],
+        ["field-required", false, "Account.status", "Field changed from optional to required"],
+        ["field-added", true, "Account.round", "Required field added"],
+        ["field-added", false, "Account.note", "Optional field added"],
+      ],
+    );
+  });
+
+  it("treats only type-affecting extension changes as breaking, and every dropped extension", () => {
+    const before = { type: "object", properties: { amount: { type: "integer", "x-algokit-bigint": true, "x-algokit-note": "a" } } };
+    const changed = { type: "object", properties: { amount: { type: "integer", "x-algokit-bigint": false, "x-algokit-note": "b" } } };
+    const dropped = { type: "object", required: ["amount"], properties: { amount: { type: "integer", "x-algokit-docs": "c" } } };
+
+    assert.deepEqual(summary(spec({}, { Account: before }), spec({}, { Account: changed })), [
+      ["extension-changed", true, "Account.amount"],
+      ["extension-changed", false, "Account.amount"],
+    ]);
+    assert.deepEqual(summary(spec({}, { Account: before }), spec({}, { Account: dropped })), [
+      ["field-required", false, "Account.amount"],
+      ["extension-removed", true, "Account.amount"],
+      ["extension-removed", true, "Account.amount"],
+      ["extension-added", false, "Account.amount"],
+    ]);
+  });
+
+  it("reports optional-to-required fields as non-breaking and required-to-optional as breaking", () => {
+    const optional = { ...account, required: ["address"] };
+    assert.deepEqual(summary(spec({}, { Account: account }), spec({}, { Account: optional })), [
+      ["field-optional", true, "Account.amount"],
+    ]);
+  });
+});
+
+describe("diffSpecs types and nested fields", () => {
+  it("reports type and format changes of fields, parameters, nested properties, items and map values", () => {
+    const schema = (round: any, total: any, app: any, balance: any) => ({
+      type: "object",
+      properties: {
+        round,
+        params: { type: "object", properties: { total, creator: { type: "string" } } },
+        "foreign-apps": { type: "array", items: app },
+        balances: { type: "object", additionalProperties: balance },
+      },
+    });
+    const base = spec(
+      {
+        "/v2/blocks/{round}": {
+          get: { operationId: "GetBlock", parameters: [{ name: "round", in: "path", schema: { type: "integer" } }] },
+        },
+      },
+      { Account: schema({ type: "integer" }, { type: "integer" }, { type: "integer" }, { type: "integer" }) },
+    );
+    const head = spec(
+      {
+        "/v2/blocks/{round}": { get: { operationId: "GetBlock", parameters: [{ name: "round", in: "path", schema: { type: "string" } }] } },
+      },
+      {
+        Account: schema(
+          { type: "integer", format: "uint64" },
+          { type: "string" },
+          { type: "string" },
+          { $ref: "#/components/schemas/Amount" },
+        ),
+      },
+    );
+    head.components!.schemas!.Account.properties.params.properties.creator = { type: "string", format: "byte" };
+    delete head.components!.schemas!.Account.properties.params.properties.total;
+
+    assert.deepEqual(
+      diffSpecs(base, head).map(({ kind, breaking, location, message }) => [kind, breaking, location, message]),
+      [
+        ["type-changed", true, "GET /v2/blocks/{round} (path parameter `round`)", "Type changed from `integer` to `string`"],
+        ["type-changed", true, "Account.round", "Type changed from `integer` to `integer (uint64)`"],
+        ["field-removed", true, "Account.params.total", "Field removed"],
+        ["type-changed", true, "Account.params.creator", "Type changed from `string` to `string (byte)`"],
+        ["type-changed", true, "Account.foreign-apps[]", "Type changed from `integer` to `string`"],
+        ["type-changed", true, "Account.balances{}", "Type changed from `integer` to `Amount`"],
+      ],
+    );
+  });
+
+  it("follows refs through schema renames", () => {
+    const base = spec(
+      {},
+      { Holder: { type: "object", properties: { account: { $ref: "#/components/schemas/Account" } } }, Account: account },
+    );
+    const head = spec(
+      {},
+      { Holder: { type: "object", properties: { account: { $ref: "#/components/schemas/AccountInfo" } } }, AccountInfo: account },
+    );
+    assert.deepEqual(summary(base, head), [["schema-renamed", true, "Account"]]);
+  });
+});
+
+describe("diffSpecs schema renames", () => {
+  it("pairs a rename by original upstream name, then diffs the schema under its new name", () => {
+    const renamed = { ...account, "x-algokit-original-name": "Account", properties: { ...account.properties, note: { type: "string" } } };
+    assert.deepEqual(summary(spec({}, { Account: account }), spec({}, { AccountInfo: renamed })), [
+      ["schema-renamed", true, "Account"],
+      ["field-added", false, "AccountInfo.note"],
+    ]);
+  });
+
+  it("pairs a rename by shape when the properties are the same", () => {
+    const described = { ...account, description: "Account information." };
+    const changes = diffSpecs(spec({}, { Account: account }), spec({}, { AccountInformation: described }));
+    assert.deepEqual(
+      changes.map(({ kind, message }) => [kind, message]),
+      [["schema-renamed", "Schema renamed to `AccountInformation`"]],
+    );
+  });
+
+  it("does not pair schemas without properties by shape", () => {
+    const base = spec({}, { Empty: { type: "object" }, Address: { type: "string" } });
+    const head = spec({}, { Other: { type: "object" }, Note: { type: "string" } });
+    assert.deepEqual(summary(base, head), [
+      ["schema-removed", true, "Empty"],
+      ["schema-removed", true, "Address"],
+      ["schema-added", false, "Other"],
+      ["schema-added", false, "Note"],
+    ]);
+  });
+});
+
+describe("renderDiffMarkdown", () => {
+  it("groups breaking and non-breaking changes", () => {
+    const changes = diffSpecs(
+      spec({ "/v2/status": { get: { operationId: "GetStatus" } } }),
+      spec({ "/health": { get: { operationId: "HealthCheck" } } }),
+    );
+    const markdown = renderDiffMarkdown("algod", changes);
+    assert.match(markdown, /^## algod\n\n### ⚠️ Breaking changes\n\n- \*\*GET \/v2\/status\*\*: Operation `GetStatus` removed\n/);
+    assert.match(markdown, /### Non-breaking changes\n\n- \*\*GET \/health\*\*: Operation `HealthCheck` added\n/);
+    assert.equal(renderDiffMarkdown("kmd", []), "## kmd\n\nNo changes.\n");
+  });
+});
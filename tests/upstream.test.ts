@@ -0,0 +1,125 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { UpstreamCache } from "../cache.js";
+import { SPECS } from "../config.js";
+import { sha256 } from "../lockfile.js";
+import { fetchLatestTag, rawSpecUrl, resolveTagCommit, type GitHubEndpoints } from "../upstream.js";
+
+// Local stand-in for the GitHub API: path → [status, body]. Every request path is recorded.
+const routes = new Map<string, [number, unknown]>();
+const requests: string[] = [];
+let server: Server;
+let endpoints: GitHubEndpoints;
+let cacheDir: string;
+
+before(async () => {
+  server = createServer((request, response) => {
+    requests.push(request.url!);
+    const [status, body] = routes.get(request.url!) ?? [404, { message: "Not Found" }];
+    response.writeHead(status, { "content-type": "application/json" });
+    response.end(typeof body === "string" ? body : JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  endpoints = { apiBaseUrl: `${url}/api/`, rawBaseUrl: `${url}/raw` };
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  routes.clear();
+  requests.length = 0;
+  cacheDir = await mkdtemp(join(tmpdir(), "openapi-converter-upstream-"));
+  mock.method(console, "log", () => {});
+});
+
+afterEach(async () => {
+  mock.restoreAll();
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+describe("fetchLatestTag", () => {
+  it("resolves the newest stable tag", async () => {
+    routes.set("/api/repos/algorand/go-algorand/tags", [
+      200,
+      [{ name: "v4.1.0-beta" }, { name: "v4.0.2-stable" }, { name: "v4.0.1-stable" }],
+    ]);
+    assert.equal(await fetchLatestTag("algorand", "go-algorand", "stable", { endpoints }), "v4.0.2-stable");
+  });
+
+  it("resolves the latest release", async () => {
+    routes.set("/api/repos/algorand/indexer/releases/latest", [200, { tag_name: "3.7.2" }]);
+    assert.equal(await fetchLatestTag("algorand", "indexer", "latest-release", { endpoints }), "3.7.2");
+  });
+
+  it("fails instead of falling back to another ref", async () => {
+    routes.set("/api/repos/algorand/go-algorand/tags", [500, { message: "Server Error" }]);
+    await assert.rejects(fetchLatestTag("algorand", "go-algorand", "stable", { endpoints }), /GitHub API request failed: 500/);
+    routes.set("/api/repos/algorand/go-algorand/tags", [200, [{ name: "v4.1.0-beta" }]]);
+    await assert.rejects(fetchLatestTag("algorand", "go-algorand", "stable", { endpoints }), /No stable tag found/);
+    assert.deepEqual(requests, ["/api/repos/algorand/go-algorand/tags", "/api/repos/algorand/go-algorand/tags"]);
+  });
+});
+
+describe("resolveTagCommit", () => {
+  it("resolves a tag to its commit SHA", async () => {
+    routes.set("/api/repos/algorand/indexer/commits/3.7.2", [200, "0123abcd\n"]);
+    assert.equal(await resolveTagCommit("algorand", "indexer", "3.7.2", { endpoints }), "0123abcd");
+  });
+
+  it("fails for an unknown tag", async () => {
+    await assert.rejects(
+      resolveTagCommit("algorand", "indexer", "9.9.9", { endpoints }),
+      /Failed to resolve algorand\/indexer@9\.9\.9: 404/,
+    );
+  });
+});
+
+describe("UpstreamCache", () => {
+  it("records lookups online and answers them offline without the network", async () => {
+    routes.set("/api/repos/algorand/indexer/releases/latest", [200, { tag_name: "3.7.2" }]);
+    routes.set("/api/repos/algorand/indexer/commits/3.7.2", [200, "0123abcd"]);
+    const online = { endpoints, cache: new UpstreamCache(cacheDir) };
+    await fetchLatestTag("algorand", "indexer", "latest-release", online);
+    await resolveTagCommit("algorand", "indexer", "3.7.2", online);
+    assert.equal(requests.length, 2);
+
+    routes.clear();
+    const offline = { endpoints, cache: new UpstreamCache(cacheDir, true) };
+    assert.equal(await fetchLatestTag("algorand", "indexer", "latest-release", offline), "3.7.2");
+    assert.equal(await resolveTagCommit("algorand", "indexer", "3.7.2", offline), "0123abcd");
+    assert.equal(requests.length, 2);
+  });
+
+  it("goes to the network for lookups when online, even if cached", async () => {
+    const cache = new UpstreamCache(cacheDir);
+    await cache.putLookup("tag:algorand/indexer:latest-release", "3.7.1");
+    routes.set("/api/repos/algorand/indexer/releases/latest", [200, { tag_name: "3.7.2" }]);
+    assert.equal(await fetchLatestTag("algorand", "indexer", "latest-release", { endpoints, cache }), "3.7.2");
+  });
+
+  it("serves documents by expected sha256, and by URL only when offline", async () => {
+    const url = rawSpecUrl(SPECS.find(({ name }) => name === "indexer")!, "0123abcd", endpoints);
+    const content = '{"swagger":"2.0"}';
+    await new UpstreamCache(cacheDir).putDocument(url, content);
+
+    assert.equal(await new UpstreamCache(cacheDir).getDocument(url, sha256(content)), content);
+    assert.equal(await new UpstreamCache(cacheDir).getDocument(url), undefined);
+    assert.equal(await new UpstreamCache(cacheDir, true).getDocument(url), content);
+    assert.equal(await new UpstreamCache(cacheDir).getDocument(url, sha256("other")), undefined);
+  });
+
+  it("fails offline when something was never cached", async () => {
+    const cache = new UpstreamCache(cacheDir, true);
+    await assert.rejects(cache.getDocument(`${endpoints.rawBaseUrl}/algorand/indexer/main/spec.json`), /is not in the upstream cache/);
+    await assert.rejects(fetchLatestTag("algorand", "indexer", "stable", { endpoints, cache }), /Run once without --offline/);
+    assert.deepEqual(requests, []);
+  });
+});
@@ -0,0 +1,194 @@
+import type { OpenAPISpec } from "./types.js";
+
+// Traversal helpers shared by the built-in transforms and plugins. These are part of the public plugin API
+// (see api.ts): keep their signatures stable.
+
+// ===== TRAVERSAL =====
+
+export type TraverseVisitor = (obj: any, path: string[], parent: any | null, key: string | number | null) => void | "skip";
+
+/**
+ * Depth-first walk over every object and array in `obj`. Return "skip" from the visitor to skip an object's children.
+ */
+export function deepTraverse(
+  obj: any,
+  visitor: TraverseVisitor,
+  path: string[] = [],
+  parent: any | null = null,
+  key: string | number | null = null,
+): void {
+  if (!obj || typeof obj !== "object") return;
+  const result = visitor(obj, path, parent, key);
+  if (result === "skip") return;
+  if (Array.isArray(obj)) {
+    obj.forEach((item, i) => deepTraverse(item, visitor, [...path, i.toString()], obj, i));
+  } else {
+    for (const [k, v] of Object.entries(obj)) {
+      if (v && typeof v === "object") {
+        deepTraverse(v, visitor, [...path, k], obj, k);
+      }
+    }
+  }
+}
+
+/**
+ * Visit every component schema
+ */
+export function forEachSchema(spec: OpenAPISpec, callback: (schemaName: string, schema: any) => void): void {
+  const schemas = spec.components?.schemas;
+  if (!schemas) return;
+  for (const [name, schema] of Object.entries(schemas)) {
+    if (schema && typeof schema === "object") {
+      callback(name, schema);
+    }
+  }
+}
+
+/**
+ * Visit every property of every component schema
+ */
+export function forEachSchemaProperty(
+  spec: OpenAPISpec,
+  callback: (schemaName: string, propName: string, propDef: any, schema: any) => void,
+): void {
+  forEachSchema(spec, (schemaName, schema) => {
+    if (!schema.properties) return;
+    for (const [propName, propDef] of Object.entries(schema.properties as Record<string, any>)) {
+      if (propDef && typeof propDef === "object") {
+        callback(schemaName, propName, propDef, schema);
+      }
+    }
+  });
+}
+
+export const HTTP_METHODS = ["get", "post", "put", "delete", "patch", "head", "options", "trace"] as const;
+
+/**
+ * Visit every operation, in HTTP_METHODS order within each path
+ */
+export function forEachOperation(spec: OpenAPISpec, callback: (path: string, method: string, operation: any, pathObj: any) => void): void {
+  if (!spec.paths) return;
+  for (const [path, pathObj] of Object.entries(spec.paths)) {
+    if (!pathObj || typeof pathObj !== "object") continue;
+    for (const method of HTTP_METHODS) {
+      const operation = (pathObj as any)[method];
+      if (operation) callback(path, method, operation, pathObj);
+    }
+  }
+}
+
+/**
+ * Visit every operation-level parameter, as written (parameter $refs are not resolved)
+ */
+export function forEachParameter(
+  spec: OpenAPISpec,
+  callback: (path: string, method: string, param: any, paramIndex: number, operation: any) => void,
+): void {
+  forEachOperation(spec, (path, method, operation) => {
+    if (!operation.parameters || !Array.isArray(operation.parameters)) return;
+    operation.parameters.forEach((param: any, index: number) => {
+      callback(path, method, param, index, operation);
+    });
+  });
+}
+
+/**
+ * Visit every schema object: component schemas, parameter, header, request body and response schemas, and the
+ * schemas nested in them (properties, items, additionalProperties, allOf/oneOf/anyOf, not). A schema is visited
+ * before its children, so children added or replaced by the callback are visited too.
+ */
+export function forEachSchemaObject(spec: OpenAPISpec, callback: (schema: any, path: string[]) => void): void {
+  const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === "object" && !Array.isArray(value);
+
+  const schema = (value: unknown, path: string[]): void => {
+    if (!isObject(value)) return;
+    callback(value, path);
+    if (isObject(value.properties)) {
+      for (const [name, property] of Object.entries(value.properties)) schema(property, [...path, "properties", name]);
+    }
+    for (const key of ["items", "additionalProperties", "not"]) schema(value[key], [...path, key]);
+    for (const key of ["allOf", "oneOf", "anyOf"]) {
+      if (Array.isArray(value[key])) value[key].forEach((item: unknown, i: number) => schema(item, [...path, key, String(i)]));
+    }
+  };
+  const content = (value: unknown, path: string[]) => {
+    if (!isObject(value)) return;
+    for (const [mediaType, media] of Object.entries(value)) schema(media?.schema, [...path, mediaType, "schema"]);
+  };
+  const parameter = (value: unknown, path: string[]) => {
+    if (!isObject(value)) return;
+    schema(value.schema, [...path, "schema"]);
+    content(value.content, [...path, "content"]);
+  };
+  const response = (value: unknown, path: string[]) => {
+    if (!isObject(value)) return;
+    if (isObject(value.headers)) {
+      for (const [name, header] of Object.entries(value.headers)) parameter(header, [...path, "headers", name]);
+    }
+    content(value.content, [...path, "content"]);
+  };
+  const each = (map: unknown, path: string[], visit: (value: unknown, path: string[]) => void) => {
+    if (isObject(map)) Object.entries(map).forEach(([name, value]) => visit(value, [...path, name]));
+  };
+
+  const components = spec.components ?? {};
+  each(components.schemas, ["components", "schemas"], schema);
+  each(components.parameters, ["components", "parameters"], parameter);
+  each(components.headers, ["components", "headers"], parameter);
+  each(components.responses, ["components", "responses"], response);
+  each(components.requestBodies, ["components", "requestBodies"], (body: any, path) => content(body?.content, [...path, "content"]));
+
+  for (const [pathName, pathObj] of Object.entries(spec.paths ?? {})) {
+    if (!isObject(pathObj)) continue;
+    const base = ["paths", pathName];
+    (pathObj.parameters ?? []).forEach((param: unknown, i: number) => parameter(param, [...base, "parameters", String(i)]));
+    for (const method of HTTP_METHODS) {
+      const operation = pathObj[method];
+      if (!isObject(operation)) continue;
+      (operation.parameters ?? []).forEach((param: unknown, i: number) => parameter(param, [...base, method, "parameters", String(i)]));
+      content(operation.requestBody?.content, [...base, method, "requestBody", "content"]);
+      each(operation.responses, [...base, method, "responses"], response);
+    }
+  }
+}
+
+/**
+ * Rewrite `#/components/schemas/<old>` $refs to the new names, returning how many were updated
+ */
+export function updateAllRefs(spec: OpenAPISpec, oldToNew: Record<string, string>): number {
+  let count = 0;
+  deepTraverse(spec, (obj) => {
+    if (typeof obj.$ref === "string" && obj.$ref.startsWith("#/components/schemas/")) {
+      const refName = obj.$ref.substring("#/components/schemas/".length);
+      if (oldToNew[refName]) {
+        obj.$ref = `#/components/schemas/${oldToNew[refName]}`;
+        count++;
+      }
+    }
+  });
+  return count;
+}
+
+/**
+ * Resolve a local `#/...` $ref to the object it points at, or null when it cannot be resolved
+ */
+export function resolveRef(spec: OpenAPISpec, ref: string): any {
+  if (!ref.startsWith("#/")) {
+    return null;
+  }
+
+  const parts = ref
+    .substring(2)
+    .split("/")
+    .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"));
+  let current: any = spec;
+
+  for (const part of parts) {
+    current = current?.[part];
+    if (!current) {
+      return null;
+    }
+  }
+
+  return current;
+}
@@ -1,3 +1,5 @@
+import type { PipelineStage } from "./pipeline.js";
+
 // ===== TYPES =====
 
 export interface OpenAPISpec {
@@ -14,6 +16,10 @@ export interface OpenAPISpec {
   [key: string]: any;
 }
 
+// Name or path a rule applies to: an exact name ("num-uint"), a glob ("*StateSchema", "/v2/deltas/**") or a
+// slash-delimited regex ("/^hb-/", "/^apiv1/i"). See selectors.ts.
+export type Selector = string;
+
 export interface VendorExtensionTransform {
   sourceProperty: string; // e.g., "x-algorand-format" or "format"
   sourceValue: string; // e.g., "uint64"
@@ -23,48 +29,55 @@ export interface VendorExtensionTransform {
 }
 
 export interface RequiredFieldTransform {
-  schemaName: string; // e.g., "ApplicationParams" - The OpenAPI schema name
-  fieldName: string | string[]; // e.g., "approval-program" or ["approval-program", "clear-state-program"] - The field name(s) to transform
+  schemaName: Selector; // e.g., "ApplicationParams" or "*StateSchema" - The OpenAPI schema name(s)
+  fieldName: Selector | Selector[]; // e.g., "approval-program" or ["approval-program", "clear-state-program"] - The field name(s) to transform
   makeRequired: boolean; // true = add to required array, false = remove from required array
 }
 
 export interface FieldTransform {
-  fieldName: string; // e.g., "action"
-  schemaName?: string; // Optional: specific schema name to target, e.g., "TealKeyValue"
+  fieldName: Selector; // Field path, e.g., "action", "/^hb-/", "foreign-assets[]" or "account-id.schema" (a parameter's schema)
+  schemaName?: Selector; // Optional: only fields of these component schemas, e.g., "TealKeyValue"
   removeItems?: string[]; // properties to remove from the target property, e.g., ["format"]
   addItems?: Record<string, any>; // properties to add to the target property, e.g., {"x-custom": true}
 }
 
 export interface FilterEndpoint {
-  path: string; // Exact path to match (e.g., "/v2/blocks/{round}")
+  path: Selector; // Path(s) to match (e.g., "/v2/blocks/{round}" or "/v2/deltas/**")
   methods?: string[]; // HTTP methods to apply to (default: ["get"])
 }
 
-export interface FieldRename {
-  from: string; // Original field name
-  to: string; // New field name
-  schemaName?: string; // Optional: specific schema name to target
+// Where a fieldRenames, bigIntFields or fixedLengthByteFields rule applies. Unscoped rules apply to every field with a
+// matching field path: component schema properties, parameters and request and response body schemas, at any depth.
+export interface FieldScope {
+  schemaName?: Selector; // Only properties of these component schemas
+  path?: Selector; // Only parameters and inline schemas of operations under these paths, e.g. "/v2/accounts/**"
+  excludedModels?: Selector[]; // Never properties of these component schemas
+}
+
+export interface FieldRename extends FieldScope {
+  from: Selector; // Original field path(s), e.g. "asset-index" or "txns[].asset-index"; the last name is renamed
+  to: string; // New field name; may refer to the capture groups of a regex `from` ($1)
 }
 
 export interface CustomSchema {
   name: string; // Schema name
   schema: Record<string, unknown>; // Schema definition object
-  linkToProperties?: string[]; // Optional: property names to update with this schema reference
+  linkToProperties?: Selector[]; // Optional: property names to update with this schema reference
   vendorExtensions?: Record<string, any>; // Optional: vendor extensions to add to the schema
 }
 
 export interface SchemaRename {
-  from: string; // Original schema name
-  to: string; // New schema name
+  from: Selector; // Original schema name(s), e.g. "APIV1*"
+  to: string; // New schema name; may refer to the capture groups of a regex `from` ($1)
 }
 
 export interface SchemaFieldRename {
-  schemaName: string; // Schema name to target
+  schemaName: Selector; // Schema name(s) to target
   fieldRenames: { from: string; to: string }[]; // Field renames to apply
 }
 
 export interface EndpointTagTransform {
-  path: string; // Exact path to match (e.g., "/v2/teal/dryrun")
+  path: Selector; // Path(s) to match (e.g., "/v2/teal/dryrun" or "/v2/blocks/**")
   methods?: string[]; // HTTP methods to apply to (default: all methods on the path)
   addTags?: string[]; // Tags to add to the endpoint
   removeTags?: string[]; // Tags to remove from the endpoint
@@ -76,15 +89,35 @@ export interface OperationIdTransform {
   stripSuffix?: string; // e.g., "ByID" - removes from end
 
   // Explicit rename (for special cases like makeHealthCheck → HealthCheck)
-  from?: string; // Original operationId
-  to?: string; // New operationId
+  from?: Selector; // Original operationId(s)
+  to?: string; // New operationId; may refer to the capture groups of a regex `from` ($1)
 }
 
 export interface ProcessingConfig {
   sourceUrl: string;
+  // Expected sha256 of the raw source document (from specs/upstream.lock.json); processing fails on mismatch
+  sourceSha256?: string;
+  // Directory of the content-addressed upstream cache (see cache.ts)
+  cacheDir?: string;
+  // Serve the source from cacheDir only, failing if it is not cached
+  offline?: boolean;
   outputPath: string;
+  // Swagger 2.0 → OpenAPI 3.0 converter: in-process, or the hosted swagger converter service (default) until
+  // `npm run check-parity` shows the in-process one reproduces the committed specs
+  converter?: "local" | "remote";
+  // Hosted converter endpoint, only used when converter is "remote"
   converterEndpoint?: string;
+  // OpenAPI version of the output: "3.0" (default) or "3.1", upgraded from the processed 3.0 document
+  openapiVersion?: "3.0" | "3.1";
   indent?: number;
+  // Files to write, named after outputPath: "json" (indented), "yaml" and "json-min" (default ["json"])
+  outputFormats?: OutputFormat[];
+  // Deterministic ordering applied before saving; true or unset enables every rule, false turns it off
+  canonicalize?: boolean | CanonicalOrdering;
+  // Where to write the per-run transformation report (JSON, plus a Markdown summary alongside)
+  reportPath?: string;
+  // Find/replace fixes for upstream typos, applied to the raw source text before it is parsed
+  textPatches?: TextPatch[];
   vendorExtensionTransforms?: VendorExtensionTransform[];
   requiredFieldTransforms?: RequiredFieldTransform[];
   fieldTransforms?: FieldTransform[];
@@ -96,17 +129,93 @@ export interface ProcessingConfig {
   // Schema field renames to apply (actual field name changes)
   schemaFieldRenames?: SchemaFieldRename[];
   // Field names to remove from all schemas (e.g., ["error", "message"])
-  removeSchemaFields?: string[];
+  removeSchemaFields?: Selector[];
+  // Descriptions and summaries to set, by JSON Pointer into the transformed document
+  descriptionOverrides?: DescriptionOverride[];
   // Make all properties required in all schemas
   makeAllFieldsRequired?: boolean;
   // Endpoint tag transforms to add/remove tags from specific endpoints
   endpointTagTransforms?: EndpointTagTransform[];
   // Schema-level vendor extensions to add (e.g., x-algokit-box-reference on BoxReference schema)
   schemaVendorExtensions?: SchemaVendorExtension[];
+  // Field renames to mark with x-algokit-field-rename
+  fieldRenames?: FieldRename[];
+  // Integer fields to mark with x-algokit-bigint
+  bigIntFields?: BigIntField[];
+  // How to treat integer fields that look 64-bit but no bigIntFields rule marks (default: list them in the report)
+  bigIntInference?: BigIntInference;
   // Fixed-length byte array fields to add x-algokit-byte-length extension
   fixedLengthByteFields?: FixedLengthByteField[];
   // OperationId transforms for renaming or pattern-based modifications
   operationIdTransforms?: OperationIdTransform[];
+  // Full pass order by name, replacing the default pipeline (passes not listed are not run)
+  passOrder?: string[];
+  // Passes to skip, by name
+  disablePasses?: string[];
+  // Passes to insert (or move) before or after another pass
+  insertPasses?: PassInsertion[];
+  // Plugin modules contributing passes and validators (see api.ts); relative paths resolve from the config file
+  plugins?: string[];
+  // RFC 6902 patches for one-off fixes that no transform covers, applied at the stage each patch names
+  jsonPatches?: JsonPatch[];
+  // OpenAPI Overlay 1.0 documents, applied in order at the stage each entry names; relative paths resolve from the config file
+  overlays?: OverlayInput[];
+  // TypeScript model declarations to write next to the spec, one type per component schema (default: none)
+  models?: ModelOutput;
+}
+
+export type OutputFormat = "json" | "yaml" | "json-min";
+
+export type ModelFormat = "d.ts" | "ts";
+
+export interface ModelOutput {
+  format?: ModelFormat; // "d.ts" (declarations only, default) or "ts" (also exports the wire-name table as WIRE_NAMES)
+  imports?: Record<string, string>; // Module to import Address or SignedTransaction from, instead of declaring a plain alias
+}
+
+export interface CanonicalOrdering {
+  keyOrder?: boolean; // Order the keys of OpenAPI objects as the specification lists them, others last (default true)
+  sortPaths?: boolean; // Sort paths by name (default true)
+  sortSchemas?: boolean; // Sort components.schemas by name (default true)
+  sortRequired?: boolean; // Order required arrays to match property order (default true)
+  trailingNewline?: boolean; // End JSON output with a newline (default true)
+}
+
+export interface TextPatch {
+  find: string; // Exact text, or a slash-delimited regex ("/APIV1(POST|DELETE)\w+Request is the/"); every occurrence is replaced
+  replace: string; // Replacement text; a regex's may refer to capture groups ($1, $<name>)
+}
+
+export interface JsonPatch {
+  description?: string; // What the patch fixes, used in error messages
+  stage?: PipelineStage; // "source" (Swagger 2.0), "converted" (before the built-in passes) or "transformed" (after them, default)
+  operations: JsonPatchOperation[];
+}
+
+// Paths are JSON Pointers ("/components/schemas/Account/properties/amount") or $ref-style fragments
+// ("#/components/schemas/Account/properties/amount")
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+export interface OverlayInput {
+  path: string; // Overlay document, YAML or JSON
+  stage?: PipelineStage; // "source" (Swagger 2.0), "converted" (before the built-in passes) or "transformed" (after them, default)
+}
+
+export interface DescriptionOverride {
+  // JSON Pointer or $ref-style fragment to an operation, parameter, schema, property or response, with names as in
+  // the transformed document, e.g. "#/paths/~1v2~1status/get/responses/200" or "#/components/schemas/Account/properties/amount"
+  pointer: string;
+  description?: string;
+  summary?: string; // Operations and path items
+}
+
+export interface PassInsertion {
+  pass: string; // Name of the pass to insert, e.g. "transformVendorExtensions"
+  before?: string; // Run it just before this pass
+  after?: string; // Or just after this pass
 }
 
 export interface OAS2Spec {
@@ -119,24 +228,75 @@ export interface OAS2Spec {
 
 // ===== INTERFACES FOR CONFIG EXTRACTION =====
 
-export interface BigIntField {
-  fieldName: string;
-  excludedModels?: string[];
+export interface BigIntField extends FieldScope {
+  fieldName: Selector; // Field path, e.g. "round", "params.total", "foreign-apps[]" or "balances{}"
+}
+
+// Integer fields whose x-go-type, format or name suffix suggests a 64-bit value are bigint candidates
+export interface BigIntInference {
+  mode?: "report" | "mark"; // List candidates in the report and warn (default), or mark them with x-algokit-bigint
+  goTypes?: string[]; // Default: uint64, int64, basics.Round, basics.AppIndex, basics.AssetIndex, basics.MicroAlgos
+  formats?: string[]; // Default: uint64, int64
+  nameSuffixes?: string[]; // Default: -round, -amount, -id
+  ignoreFields?: BigIntField[]; // Fields that are never candidates, scoped like bigIntFields
 }
 
-export interface FixedLengthByteField {
-  fieldName: string;
+export interface FixedLengthByteField extends FieldScope {
+  fieldName: Selector; // Field path, as in bigIntFields
   byteLength: number;
-  schemaName?: string;
 }
 
 export interface SchemaVendorExtension {
-  schemaName: string;
+  schemaName: Selector;
   extension: string;
   value: unknown;
 }
 
-export interface SpecConfig extends Omit<ProcessingConfig, "sourceUrl" | "outputPath" | "converterEndpoint" | "indent" | "customSchemas"> {
-  customSchemas?: Omit<CustomSchema, "schema">[];
-  fixedLengthByteFields?: FixedLengthByteField[];
+export interface SpecDefinition {
+  name: string;
+  cliFlag: string;
+  config: SpecConfig;
+  github: {
+    owner: string;
+    repo: string;
+    tagStrategy: "stable" | "latest-release";
+    path: string; // Path of the upstream document within the repository
+  };
+  outputFile: string;
+}
+
+// Per-spec transformation rules: everything in ProcessingConfig that isn't tied to a single run
+export interface SpecConfig
+  extends Omit<ProcessingConfig, "sourceUrl" | "sourceSha256" | "cacheDir" | "offline" | "outputPath" | "reportPath"> {}
+
+// ===== CROSS-SPEC CONSISTENCY =====
+
+// What the consistency command compares between same-named (or equivalent) schemas of two specs
+export type ConsistencyKind = "type" | "format" | "required" | "extension";
+
+export interface ConsistencyConfig {
+  equivalents?: Record<string, string>[]; // Differently named schemas that model the same thing, spec name → schema name
+  allow?: ConsistencyAllowance[]; // Known differences, reported but not failing the check
+}
+
+export interface ConsistencyAllowance {
+  schema: Selector; // Schema name(s) in either spec, e.g. "Account" or "*"
+  field?: Selector; // Field name(s); default every field
+  kind?: ConsistencyKind; // Default every kind
+  // The differing values, in the order the specs are compared (e.g. [algod, indexer]), undefined for unset; default any
+  values?: [unknown, unknown];
+  reason: string; // Why the specs legitimately differ
+}
+
+// ===== EXTERNAL CONFIG FILES =====
+
+// Shape of a YAML or JSON spec config file (see schemas/spec-config.schema.json)
+export interface SpecConfigFile extends SpecConfig {
+  $schema?: string;
+  // Built-in preset name ("algod", "indexer", "kmd") or path to another config file, relative to this one
+  extends?: string;
+  // Spec this file configures; defaults to the built-in preset at the root of the `extends` chain
+  spec?: string;
+  // Keys whose values replace the extended config instead of being appended to it
+  replace?: (keyof SpecConfig)[];
 }
@@ -0,0 +1,99 @@
+import type { UpstreamCache } from "./cache.js";
+import type { SpecDefinition } from "./types.js";
+
+// ===== ENDPOINTS =====
+
+export interface GitHubEndpoints {
+  apiBaseUrl: string; // GitHub REST API, e.g. "https://api.github.com"
+  rawBaseUrl: string; // Raw file host, e.g. "https://raw.githubusercontent.com"
+}
+
+export const DEFAULT_GITHUB_ENDPOINTS: GitHubEndpoints = {
+  apiBaseUrl: "https://api.github.com",
+  rawBaseUrl: "https://raw.githubusercontent.com",
+};
+
+export interface GitHubOptions {
+  endpoints?: GitHubEndpoints; // Override to point at a local stand-in for GitHub
+  cache?: UpstreamCache; // Record lookups, and answer them when offline
+}
+
+/**
+ * Raw URL of a spec's upstream document at a tag or commit
+ */
+export function rawSpecUrl(spec: SpecDefinition, ref: string, endpoints: GitHubEndpoints = DEFAULT_GITHUB_ENDPOINTS): string {
+  const { owner, repo, path } = spec.github;
+  return `${endpoints.rawBaseUrl.replace(/\/+$/, "")}/${owner}/${repo}/${ref}/${path}`;
+}
+
+function apiUrl(endpoints: GitHubEndpoints = DEFAULT_GITHUB_ENDPOINTS, path: string): string {
+  return `${endpoints.apiBaseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+// ===== TAG FETCHING =====
+
+export async function fetchLatestTag(
+  owner: string,
+  repo: string,
+  strategy: "stable" | "latest-release",
+  options: GitHubOptions = {},
+): Promise<string> {
+  const cacheKey = `tag:${owner}/${repo}:${strategy}`;
+  const cached = await options.cache?.getLookup(cacheKey);
+  if (cached) {
+    console.log(`ℹ️  Using cached latest ${strategy} tag for ${owner}/${repo}: ${cached}`);
+    return cached;
+  }
+
+  console.log(`ℹ️  Fetching latest ${strategy} tag for ${owner}/${repo}...`);
+
+  let tag: string;
+  if (strategy === "stable") {
+    const response = await fetch(apiUrl(options.endpoints, `/repos/${owner}/${repo}/tags`));
+    if (!response.ok) {
+      throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`);
+    }
+    const tags = await response.json();
+    const stableTag = tags.find((tag: any) => tag.name.includes("-stable"));
+    if (!stableTag) {
+      throw new Error("No stable tag found in the repository");
+    }
+    console.log(`✅ Found latest stable tag: ${stableTag.name}`);
+    tag = stableTag.name;
+  } else {
+    const response = await fetch(apiUrl(options.endpoints, `/repos/${owner}/${repo}/releases/latest`));
+    if (!response.ok) {
+      throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`);
+    }
+    const release = await response.json();
+    console.log(`✅ Found latest release tag: ${release.tag_name}`);
+    tag = release.tag_name;
+  }
+
+  await options.cache?.putLookup(cacheKey, tag);
+  return tag;
+}
+
+/**
+ * Resolve a tag (or branch) to the commit SHA it currently points at
+ */
+export async function resolveTagCommit(owner: string, repo: string, tag: string, options: GitHubOptions = {}): Promise<string> {
+  const cacheKey = `commit:${owner}/${repo}@${tag}`;
+  const cached = await options.cache?.getLookup(cacheKey);
+  if (cached) {
+    console.log(`ℹ️  Using cached commit for ${owner}/${repo}@${tag}: ${cached}`);
+    return cached;
+  }
+
+  const response = await fetch(apiUrl(options.endpoints, `/repos/${owner}/${repo}/commits/${encodeURIComponent(tag)}`), {
+    headers: { Accept: "application/vnd.github.sha" },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to resolve ${owner}/${repo}@${tag}: ${response.status} ${response.statusText}`);
+  }
+  const commit = (await response.text()).trim();
+  console.log(`✅ Resolved ${owner}/${repo}@${tag} to ${commit}`);
+
+  await options.cache?.putLookup(cacheKey, commit);
+  return commit;
+}